@@ -1,12 +1,14 @@
 // @ts-ignore - @cloudflare/containers has broken type exports, but wrangler handles it correctly
 import { Container } from "@cloudflare/containers";
-import { createWarmPool, getWarmPool, WarmPool } from "cf-container-warm-pool";
+import { createAdminHandler, createWarmPool, getWarmPool, WarmPool } from "cf-container-warm-pool";
 
 // Environment bindings
 export interface Env {
   CONTAINER: DurableObjectNamespace;
   WARM_POOL: DurableObjectNamespace<WarmPool>;
   CONTAINER_ID_CACHE: KVNamespace;
+  // Secret for the admin routes: `wrangler secret put ADMIN_TOKEN`. Without it, /admin is not served.
+  ADMIN_TOKEN?: string;
 }
 
 /**
@@ -59,20 +61,13 @@ export default {
       idCache: env.CONTAINER_ID_CACHE,
     });
 
-    // Route: GET /stats - Show pool statistics
-    if (url.pathname === "/stats") {
-      const stats = await pool.stats();
-      return Response.json(stats, {
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Route: POST /shutdown-prewarmed - Stop all pre-warmed containers
-    if (url.pathname === "/shutdown-prewarmed" && request.method === "POST") {
-      await pool.shutdownPrewarmed();
-      return new Response("Pre-warmed containers shutdown complete", {
-        status: 200,
-      });
+    // Routes: /admin/* - Pool stats and operations (requires `Authorization: Bearer <ADMIN_TOKEN>`)
+    if (env.ADMIN_TOKEN) {
+      const admin = createAdminHandler(pool, { prefix: "/admin", token: env.ADMIN_TOKEN });
+      const adminResponse = await admin(request);
+      if (adminResponse) {
+        return adminResponse;
+      }
     }
 
     // Route: /instance/:id/* - Route to a specific container by ID
@@ -93,7 +88,7 @@ export default {
     }
 
     // Unknown route - return 404 instead of accidentally creating/keeping containers alive
-    return new Response("Not Found. Use /instance/:id to access a container, or /stats to view pool stats.", { 
+    return new Response("Not Found. Use /instance/:id to access a container, or /admin/stats to view pool stats.", { 
       status: 404 
     });
   },
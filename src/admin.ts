@@ -0,0 +1,465 @@
+import type { WarmPoolClient } from './client.js';
+import { CircuitOpenError, PoolDrainingError, UnknownProfileError } from './errors.js';
+import { renderOpenMetrics } from './metrics.js';
+import { validateSchedule } from './schedule.js';
+import type { ConfigOverrides, PoolConfigInternal, ReleaseMode, WarmSchedule } from './types.js';
+
+/**
+ * Options for the admin request handler
+ */
+export interface AdminHandlerOptions {
+  /**
+   * Path prefix the handler is mounted under, e.g. '/admin'
+   * @default ''
+   */
+  prefix?: string;
+
+  /** Token callers must send as `Authorization: Bearer <token>` */
+  token?: string;
+
+  /**
+   * Custom auth check, used instead of `token`. Return false to reject the
+   * request with a 401.
+   */
+  authorize?: (request: Request) => boolean | Promise<boolean>;
+}
+
+/**
+ * Handles admin requests. Resolves to null for paths outside the prefix, so
+ * the Worker can fall through to its own routes.
+ */
+export type AdminHandler = (request: Request) => Promise<Response | null>;
+
+/**
+ * An error with the HTTP status and code to respond with
+ */
+class AdminError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+    this.name = 'AdminError';
+  }
+}
+
+type OverrideKind = 'count' | 'duration' | 'string' | 'object' | 'schedule' | 'releaseMode';
+
+/** Settings that can be overridden at runtime, with how to validate them */
+const OVERRIDABLE: Record<keyof PoolConfigInternal, OverrideKind> = {
+  warmTarget: 'count',
+  autoscale: 'object',
+  schedule: 'schedule',
+  refreshInterval: 'duration',
+  startConcurrency: 'count',
+  startTimeout: 'duration',
+  startRetries: 'count',
+  startRetryBackoff: 'duration',
+  maxTotal: 'count',
+  sessionsPerContainer: 'count',
+  acquireTimeout: 'duration',
+  profiles: 'object',
+  resetHook: 'object',
+  warmup: 'object',
+  healthCheck: 'object',
+  circuitBreaker: 'object',
+  pricing: 'object',
+  maxIdleContainerSecondsPerHour: 'count',
+  leaseExpiry: 'releaseMode',
+  events: 'object',
+  version: 'string',
+  rolloutBatchSize: 'count',
+  maxWarmAge: 'duration',
+  maxIdleWarm: 'duration',
+};
+
+const RELEASE_MODES: ReleaseMode[] = ['stop', 'recycle'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a config override request body
+ * @throws AdminError (400) describing the first invalid setting
+ */
+function parseOverrides(body: unknown): ConfigOverrides {
+  if (!isObject(body)) {
+    throw new AdminError(400, 'invalid_config', 'Expected a JSON object of settings');
+  }
+
+  for (const [key, value] of Object.entries(body)) {
+    const kind = OVERRIDABLE[key as keyof PoolConfigInternal];
+    if (!kind) {
+      throw new AdminError(400, 'invalid_config', `Unknown setting '${key}'`);
+    }
+    if (value === null) continue;
+
+    const invalid = (expected: string) =>
+      new AdminError(400, 'invalid_config', `Invalid value for '${key}', expected ${expected}`);
+
+    switch (kind) {
+      case 'count':
+        if (!Number.isInteger(value) || (value as number) < 0) throw invalid('a non-negative integer');
+        break;
+      case 'duration':
+        if (typeof value !== 'number' || !(value > 0)) throw invalid('a positive number of milliseconds');
+        break;
+      case 'string':
+        if (typeof value !== 'string') throw invalid('a string');
+        break;
+      case 'releaseMode':
+        if (!RELEASE_MODES.includes(value as ReleaseMode)) throw invalid(RELEASE_MODES.join(' or '));
+        break;
+      case 'schedule':
+        if (!isObject(value) || !Array.isArray(value.windows)) throw invalid('a schedule with windows');
+        try {
+          validateSchedule(value as unknown as WarmSchedule);
+        } catch (error) {
+          throw new AdminError(400, 'invalid_config', (error as Error).message);
+        }
+        break;
+      case 'object':
+        if (!isObject(value)) throw invalid('an object');
+        break;
+    }
+  }
+
+  return body as ConfigOverrides;
+}
+
+/**
+ * Check the `expiresAt` and `profile` of a prewarm or reservation request body
+ * @throws AdminError (400) if either is invalid
+ */
+function parseBurstOptions(body: Record<string, unknown>): { expiresAt: number; profile?: string } {
+  const { expiresAt, profile } = body;
+  if (typeof expiresAt !== 'number' || !Number.isFinite(expiresAt)) {
+    throw new AdminError(400, 'invalid_request', 'expiresAt must be a timestamp in milliseconds');
+  }
+  if (profile !== undefined && typeof profile !== 'string') {
+    throw new AdminError(400, 'invalid_request', 'profile must be a string');
+  }
+  return { expiresAt, profile };
+}
+
+/**
+ * Decode a path parameter
+ * @throws AdminError (400) if it isn't valid percent-encoding
+ */
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (_error) {
+    throw new AdminError(400, 'invalid_request', `Path parameter '${value}' is not valid percent-encoding`);
+  }
+}
+
+/**
+ * Map an error thrown by the pool to the response for it. Errors the caller
+ * can act on get a 4xx or 503, anything else is a 500.
+ */
+function toErrorResponse(error: unknown): Response {
+  if (error instanceof AdminError) {
+    return errorResponse(error, error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : undefined);
+  }
+  if (error instanceof UnknownProfileError) {
+    return errorResponse(new AdminError(400, 'unknown_profile', error.message));
+  }
+  if (error instanceof PoolDrainingError) {
+    return errorResponse(new AdminError(503, 'pool_draining', error.message));
+  }
+  if (error instanceof CircuitOpenError) {
+    return errorResponse(
+      new AdminError(503, 'circuit_open', error.message),
+      { 'Retry-After': String(Math.ceil(error.retryAfter / 1000)) }
+    );
+  }
+  console.error('Admin request failed:', error);
+  const message = error instanceof Error ? error.message : String(error);
+  return errorResponse(new AdminError(500, 'internal_error', message));
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch (_error) {
+    throw new AdminError(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+function errorResponse(error: AdminError, headers?: HeadersInit): Response {
+  return Response.json({ error: { code: error.code, message: error.message } }, { status: error.status, headers });
+}
+
+/**
+ * Compare two strings in time that depends only on their length
+ */
+function safeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+interface Route {
+  method: string;
+  path: RegExp;
+  handle: (params: string[], request: Request, url: URL) => Promise<Response>;
+}
+
+/**
+ * Create a request handler for pool administration
+ *
+ * Routes (relative to `prefix`):
+ * - `GET /stats` - pool statistics
+ * - `GET /metrics` - metrics in the OpenMetrics text format
+ * - `GET /assignments?limit=&cursor=` - a page of assignments
+ * - `GET /assignments/:id` - the assignment of a session ID
+ * - `DELETE /assignments/:id?mode=stop|recycle` - release a session's container
+ * - `GET /containers/:uuid` - the assignments holding a container
+ * - `GET /usage/:id` - container time used by a session ID
+ * - `GET /config` - the current config
+ * - `PATCH /config` - override settings at runtime (null removes an override)
+ * - `DELETE /config` - remove all overrides
+ * - `POST /pause` - stop starting and stopping warm containers
+ * - `POST /drain` - stop new assignments and stop warm containers
+ * - `POST /resume` - return to normal operation
+ * - `POST /shutdown-prewarmed` - stop all warm containers
+ * - `POST /prewarm` - keep extra warm containers until a deadline (`{ count, expiresAt, profile? }`)
+ * - `POST /reservations` - assign containers to IDs ahead of time (`{ ids, expiresAt, profile? }`)
+ *
+ * Responses are JSON (except `/metrics`). Errors have the shape
+ * `{ error: { code, message } }` with status 400 (bad input or unknown
+ * profile), 401 (not authorized), 404 (unknown route, session or container),
+ * 405 (wrong method), 503 (pool draining or circuit open) or 500.
+ *
+ * @param pool - The pool client to administer
+ * @param options - Mount prefix and auth. Either `token` or `authorize` is required.
+ *
+ * @example
+ * ```ts
+ * const admin = createAdminHandler(pool, { prefix: '/admin', token: env.ADMIN_TOKEN });
+ * const response = await admin(request);
+ * if (response) return response;
+ * ```
+ */
+export function createAdminHandler(pool: WarmPoolClient, options: AdminHandlerOptions): AdminHandler {
+  const { token, authorize } = options;
+  if (!token && !authorize) {
+    throw new Error('createAdminHandler requires a token or an authorize callback');
+  }
+
+  const prefix = (options.prefix ?? '').replace(/\/+$/, '');
+
+  const isAuthorized = async (request: Request): Promise<boolean> => {
+    if (authorize) {
+      return authorize(request);
+    }
+    const header = request.headers.get('Authorization') ?? '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    return match !== null && safeEqual(match[1], token as string);
+  };
+
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      path: /^\/stats$/,
+      handle: async () => json(await pool.stats()),
+    },
+    {
+      method: 'GET',
+      path: /^\/metrics$/,
+      handle: async () => new Response(renderOpenMetrics(await pool.metrics()), {
+        headers: { 'Content-Type': 'application/openmetrics-text; version=1.0.0; charset=utf-8' },
+      }),
+    },
+    {
+      method: 'GET',
+      path: /^\/assignments$/,
+      handle: async (_params, _request, url) => {
+        const limitParam = url.searchParams.get('limit');
+        const limit = limitParam === null ? undefined : Number(limitParam);
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 1000)) {
+          throw new AdminError(400, 'invalid_limit', 'limit must be an integer from 1 to 1000');
+        }
+
+        const cursor = url.searchParams.get('cursor') ?? undefined;
+        try {
+          return json(await pool.listAssignments({ limit, cursor }));
+        } catch (error) {
+          if (error instanceof Error && error.message.startsWith('Invalid assignment cursor')) {
+            throw new AdminError(400, 'invalid_cursor', error.message);
+          }
+          throw error;
+        }
+      },
+    },
+    {
+      method: 'GET',
+      path: /^\/assignments\/([^/]+)$/,
+      handle: async ([id]) => {
+        const assignment = await pool.getAssignment(id);
+        if (!assignment) {
+          throw new AdminError(404, 'not_found', `No container is assigned to '${id}'`);
+        }
+        return json(assignment);
+      },
+    },
+    {
+      method: 'DELETE',
+      path: /^\/assignments\/([^/]+)$/,
+      handle: async ([id], _request, url) => {
+        const mode = (url.searchParams.get('mode') ?? 'stop') as ReleaseMode;
+        if (!RELEASE_MODES.includes(mode)) {
+          throw new AdminError(400, 'invalid_mode', `mode must be ${RELEASE_MODES.join(' or ')}`);
+        }
+
+        const result = await pool.release(id, { mode });
+        if (result === 'not_found') {
+          throw new AdminError(404, 'not_found', `No container is assigned to '${id}'`);
+        }
+        return json({ result });
+      },
+    },
+    {
+      method: 'GET',
+      path: /^\/containers\/([^/]+)$/,
+      handle: async ([uuid]) => {
+        const assignments = await pool.getAssignmentsByContainer(uuid);
+        if (assignments.length === 0) {
+          throw new AdminError(404, 'not_found', `Container '${uuid}' is not assigned`);
+        }
+        return json({ assignments });
+      },
+    },
+    {
+      method: 'GET',
+      path: /^\/usage\/([^/]+)$/,
+      handle: async ([id]) => {
+        const usage = await pool.sessionUsage(id);
+        if (!usage) {
+          throw new AdminError(404, 'not_found', `No usage recorded for '${id}'`);
+        }
+        return json(usage);
+      },
+    },
+    {
+      method: 'GET',
+      path: /^\/config$/,
+      handle: async () => {
+        const { config, configOverrides } = await pool.stats();
+        return json({ config, overrides: configOverrides });
+      },
+    },
+    {
+      method: 'PATCH',
+      path: /^\/config$/,
+      handle: async (_params, request) => {
+        const overrides = parseOverrides(await readJson(request));
+        return json({ config: await pool.overrideConfig(overrides) });
+      },
+    },
+    {
+      method: 'DELETE',
+      path: /^\/config$/,
+      handle: async () => json({ config: await pool.overrideConfig(null) }),
+    },
+    {
+      method: 'POST',
+      path: /^\/pause$/,
+      handle: async () => {
+        await pool.pause();
+        return json({ mode: 'paused' });
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/drain$/,
+      handle: async () => {
+        await pool.drain();
+        return json({ mode: 'draining' });
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/resume$/,
+      handle: async () => {
+        await pool.resume();
+        return json({ mode: 'active' });
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/shutdown-prewarmed$/,
+      handle: async () => {
+        await pool.shutdownPrewarmed();
+        return json({ ok: true });
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/prewarm$/,
+      handle: async (_params, request) => {
+        const body = await readJson(request);
+        if (!isObject(body) || !Number.isInteger(body.count) || (body.count as number) < 0) {
+          throw new AdminError(400, 'invalid_request', 'count must be a non-negative integer');
+        }
+        await pool.prewarm(body.count as number, parseBurstOptions(body));
+        return json({ ok: true });
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/reservations$/,
+      handle: async (_params, request) => {
+        const body = await readJson(request);
+        if (!isObject(body) || !Array.isArray(body.ids) || !body.ids.every((id) => typeof id === 'string')) {
+          throw new AdminError(400, 'invalid_request', 'ids must be an array of strings');
+        }
+        return json(await pool.reserve(body.ids as string[], parseBurstOptions(body)));
+      },
+    },
+  ];
+
+  return async (request: Request): Promise<Response | null> => {
+    const url = new URL(request.url);
+    if (url.pathname !== prefix && !url.pathname.startsWith(`${prefix}/`)) {
+      return null;
+    }
+
+    try {
+      if (!await isAuthorized(request)) {
+        throw new AdminError(401, 'unauthorized', 'Missing or invalid credentials');
+      }
+
+      const path = url.pathname.slice(prefix.length) || '/';
+      const matching = routes
+        .map((route) => ({ route, match: route.path.exec(path) }))
+        .filter((candidate) => candidate.match !== null);
+
+      if (matching.length === 0) {
+        throw new AdminError(404, 'not_found', `Unknown admin route '${path}'`);
+      }
+
+      const found = matching.find(({ route }) => route.method === request.method);
+      if (!found) {
+        const allowed = matching.map(({ route }) => route.method).join(', ');
+        return errorResponse(
+          new AdminError(405, 'method_not_allowed', `Method ${request.method} is not allowed, use ${allowed}`),
+          { Allow: allowed }
+        );
+      }
+
+      const params = (found.match as RegExpExecArray).slice(1).map(decodeParam);
+      return await found.route.handle(params, request, url);
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import type { AutoscaleConfig, DemandStats } from './types.js';
+
+const DEFAULT_SMOOTHING = 0.3;
+
+/**
+ * Demand counters collected between alarms, plus the smoothed rates derived from them
+ */
+export interface DemandState extends DemandStats {
+  /** When the current sampling window started (ms since epoch) */
+  windowStart: number;
+  /** Warm containers handed out in the current window */
+  windowWarmHits: number;
+  /** Cold starts in the current window */
+  windowColdStarts: number;
+}
+
+export function createDemandState(now: number): DemandState {
+  return {
+    windowStart: now,
+    windowWarmHits: 0,
+    windowColdStarts: 0,
+    demandRate: 0,
+    coldStartRate: 0,
+    startupLatency: 0,
+  };
+}
+
+/**
+ * Exponentially weighted moving average
+ */
+export function ewma(previous: number, sample: number, smoothing: number): number {
+  return smoothing * sample + (1 - smoothing) * previous;
+}
+
+/**
+ * Fold a container startup duration into the smoothed startup latency
+ */
+export function smoothStartupLatency(previous: number, latency: number, config?: AutoscaleConfig): number {
+  if (previous === 0) return latency;
+  return ewma(previous, latency, config?.smoothing ?? DEFAULT_SMOOTHING);
+}
+
+/**
+ * Close the current sampling window and fold its rates into the smoothed averages
+ */
+export function sampleDemand(state: DemandState, now: number, config?: AutoscaleConfig): DemandState {
+  const elapsed = (now - state.windowStart) / 1000;
+  if (elapsed <= 0) return state;
+
+  const smoothing = config?.smoothing ?? DEFAULT_SMOOTHING;
+  const demand = (state.windowWarmHits + state.windowColdStarts) / elapsed;
+  const coldStarts = state.windowColdStarts / elapsed;
+
+  return {
+    ...state,
+    windowStart: now,
+    windowWarmHits: 0,
+    windowColdStarts: 0,
+    demandRate: ewma(state.demandRate, demand, smoothing),
+    coldStartRate: ewma(state.coldStartRate, coldStarts, smoothing),
+  };
+}
+
+/**
+ * Compute the warm target from smoothed demand
+ *
+ * A container taken from the pool is replaced at the next refresh, and the
+ * replacement takes `startupLatency` to come up. Keeping enough containers warm
+ * to cover the demand over that window avoids cold starts.
+ */
+export function computeWarmTarget(
+  state: DemandStats,
+  config: AutoscaleConfig,
+  refreshInterval: number
+): number {
+  const replenishWindow = (state.startupLatency + refreshInterval) / 1000;
+  const target = Math.ceil(state.demandRate * replenishWindow);
+  return Math.min(config.maxWarm, Math.max(config.minWarm, target));
+}
@@ -1,18 +1,118 @@
 import type {
   WarmPoolConfig,
   PoolStats,
+  DetailedPoolStats,
   PoolConfigInternal,
+  ResolvedPoolConfig,
+  ConfigOverrides,
+  GetContainerOptions,
+  ReleaseOptions,
+  ReleaseResult,
+  AssignmentInfo,
+  AssignmentPage,
+  ContainerState,
+  ListAssignmentsOptions,
+  PoolMode,
+  PrewarmOptions,
+  ReserveOptions,
+  ReserveResult,
+  SessionUsage,
 } from './types.js';
+import { rehydrateError } from './errors.js';
+import { mergeMetrics } from './metrics.js';
 import type { WarmPool } from './pool.js';
-
-interface ContainerState {
-  status: 'running' | 'stopping' | 'stopped' | 'healthy' | 'stopped_with_code';
-}
+import { validateSchedule } from './schedule.js';
+import {
+  mergeStats,
+  shardConfig,
+  shardForContainer,
+  shardForKey,
+  shardName,
+  splitCount,
+  type ShardInfo,
+} from './shards.js';
 
 interface ContainerWithState {
   getState(): Promise<ContainerState>;
 }
 
+/**
+ * A WarmPool instance the client talks to, with its share of the config
+ */
+interface PoolShard {
+  stub: DurableObjectStub<WarmPool>;
+  shard: ShardInfo;
+  config: PoolConfigInternal;
+  /** Whether the client caches ID mappings in `idCache` */
+  idCache: boolean;
+}
+
+function getShards(
+  poolNamespace: DurableObjectNamespace<WarmPool>,
+  poolName: string,
+  count: number,
+  config: PoolConfigInternal,
+  idCache = false
+): PoolShard[] {
+  return Array.from({ length: count }, (_, index) => {
+    const shard = { index, count };
+    return {
+      stub: poolNamespace.get(poolNamespace.idFromName(shardName(poolName, shard))),
+      shard,
+      config: shardConfig(config, shard),
+      idCache,
+    };
+  });
+}
+
+/**
+ * Send a shard its config so it's always up-to-date (handles redeployments)
+ */
+async function syncConfig(target: PoolShard): Promise<void> {
+  try {
+    await target.stub.configure(target.config, target.shard, { idCache: target.idCache });
+  } catch (_error) {
+    // Keep backward-compatible behavior: continue even if config RPC fails.
+  }
+}
+
+async function getShardStats(target: PoolShard): Promise<PoolStats> {
+  const doClient = target.stub as unknown as {
+    getStats: () => Promise<PoolStats>;
+    stats?: () => Promise<PoolStats>;
+  };
+
+  try {
+    return await doClient.getStats();
+  } catch (_error) {
+    if (typeof doClient.stats === 'function') {
+      return doClient.stats();
+    }
+    throw _error;
+  }
+}
+
+/**
+ * Assignment cursors are `<shard>:<last user ID>`, so paging can continue
+ * across shards
+ */
+function formatAssignmentCursor(index: number, after: string | undefined): string {
+  return after === undefined ? `${index}:` : `${index}:${after}`;
+}
+
+function parseAssignmentCursor(cursor: string | undefined): { index: number; after: string | undefined } {
+  if (!cursor) return { index: 0, after: undefined };
+
+  const separator = cursor.indexOf(':');
+  const index = Number(cursor.slice(0, separator));
+  if (separator === -1 || !Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid assignment cursor '${cursor}'`);
+  }
+
+  const after = cursor.slice(separator + 1);
+  return { index, after: after === '' ? undefined : after };
+}
+
 /**
  * Client for interacting with a WarmPool Durable Object
  * 
@@ -36,21 +136,167 @@ export interface WarmPoolClient {
    * If this ID already has an assigned container, returns the same container.
    * If not, assigns a warm container from the pool.
    * If no warm containers available, starts a new one.
+   * If the pool is at `maxTotal`, waits in a FIFO queue for a container to free up.
    * 
    * @param id - Unique identifier for this container session
+   * @param options - Acquisition options, e.g. how long to wait for capacity
    * @returns A container stub ready to use
+   * @throws PoolExhaustedError if the pool is full and no container frees up in time
    */
-  getContainer(id: string): Promise<DurableObjectStub>;
+  getContainer(id: string, options?: GetContainerOptions): Promise<DurableObjectStub>;
+
+  /**
+   * Keep more warm containers than the warm target until a deadline, e.g.
+   * ahead of a scheduled class or a batch of jobs
+   * 
+   * Bursts add up with each other and with the warm target (including
+   * schedules and autoscaling), and are still limited by `maxTotal`.
+   * 
+   * @param count - Number of extra warm containers
+   * @param options - When the burst ends, and the profile to pre-warm
+   */
+  prewarm(count: number, options: PrewarmOptions): Promise<void>;
+
+  /**
+   * Assign containers to IDs before their sessions arrive
+   * 
+   * Each ID gets a warm container (or a newly started one) right away, and
+   * its first `getContainer()` call claims it. Containers not claimed by
+   * `options.expiresAt` go back to the warm pool.
+   * 
+   * @param ids - IDs that will call `getContainer()` soon
+   * @param options - When unclaimed reservations expire, and the profile to draw from
+   * @returns The IDs that got a container and those that didn't
+   */
+  reserve(ids: string[], options: ReserveOptions): Promise<ReserveResult>;
+
+  /**
+   * Release the container assigned to an ID
+   * 
+   * Use this when a session ends (e.g. on logout) instead of waiting for the
+   * container's `sleepAfter` to expire. With `mode: 'stop'` (default) the container
+   * is stopped right away. With `mode: 'recycle'` the pool runs the configured
+   * `resetHook` and returns the container to the warm pool if it succeeds.
+   * 
+   * @param id - The ID passed to `getContainer()`
+   * @param options - Release options
+   * @returns What happened to the container
+   */
+  release(id: string, options?: ReleaseOptions): Promise<ReleaseResult>;
+
+  /**
+   * Extend the lease on an ID's container
+   * 
+   * Call this periodically as a heartbeat for containers acquired with `leaseMs`.
+   * 
+   * @param id - The ID passed to `getContainer()`
+   * @param leaseMs - New lease duration (defaults to the one the lease was created with)
+   * @returns The new expiry (ms since epoch), or null if the ID has no leased container
+   */
+  renewLease(id: string, leaseMs?: number): Promise<number | null>;
 
   /**
    * Get current pool statistics
    */
   stats(): Promise<PoolStats>;
 
+  /**
+   * Get pool statistics with detailed metrics: warm hits vs cold starts,
+   * evictions, stop failures and latency, startup and warm-age histograms
+   * 
+   * Pass the result to `renderOpenMetrics()` to serve it to a Prometheus scraper.
+   */
+  metrics(): Promise<DetailedPoolStats>;
+
+  /**
+   * Get the container assigned to an ID
+   * 
+   * @param id - The ID passed to `getContainer()`
+   * @returns The assignment, or null if the ID has no container
+   */
+  getAssignment(id: string): Promise<AssignmentInfo | null>;
+
+  /**
+   * Find which IDs a container is assigned to
+   * 
+   * @param containerUUID - The container's UUID, as in `AssignmentInfo.containerUUID`
+   * @returns The assignments ordered by ID - more than one if `sessionsPerContainer`
+   * is above 1, and none if the container isn't assigned
+   */
+  getAssignmentsByContainer(containerUUID: string): Promise<AssignmentInfo[]>;
+
+  /**
+   * Get the container time an ID has used, with its estimated cost if
+   * `pricing` is configured. Usage is kept for 7 days after the ID last held
+   * a container.
+   * 
+   * @param id - The ID passed to `getContainer()`
+   * @returns The usage, or null if the ID hasn't held a container recently
+   */
+  sessionUsage(id: string): Promise<SessionUsage | null>;
+
+  /**
+   * List assignments a page at a time
+   * 
+   * @param options - Page size and the cursor returned by the previous page
+   */
+  listAssignments(options?: ListAssignmentsOptions): Promise<AssignmentPage>;
+
+  /**
+   * Change pool settings at runtime
+   * 
+   * Overrides take precedence over the config passed to `createWarmPool()` and
+   * persist until removed. They are merged into the existing overrides; a null
+   * value removes the override for that setting.
+   * 
+   * @param overrides - Settings to change, or null to remove all overrides
+   * @returns The resulting config
+   */
+  overrideConfig(overrides: ConfigOverrides | null): Promise<ResolvedPoolConfig>;
+
+  /**
+   * Change the pool's operating mode
+   * 
+   * - `active`: assign containers and keep the warm pool at its target
+   * - `paused`: keep existing warm containers, but start no new ones
+   * - `draining`: stop all warm containers and stop assigning containers to
+   *   new IDs. IDs that already have a container keep it, new IDs get a
+   *   `PoolDrainingError`.
+   * 
+   * The mode persists until changed again.
+   */
+  setMode(mode: PoolMode): Promise<void>;
+
+  /**
+   * Stop replenishing the warm pool - shorthand for `setMode('paused')`
+   */
+  pause(): Promise<void>;
+
+  /**
+   * Stop all warm containers and new assignments - shorthand for `setMode('draining')`
+   */
+  drain(): Promise<void>;
+
+  /**
+   * Return to normal operation and refill the warm pool - shorthand for `setMode('active')`
+   */
+  resume(): Promise<void>;
+
   /**
    * Shutdown all pre-warmed (unassigned) containers
    */
   shutdownPrewarmed(): Promise<void>;
+
+  /**
+   * Subscribe to lifecycle events over a WebSocket
+   * 
+   * Forwards a WebSocket upgrade request to the pool. Requires `events.websocket`.
+   * Return the response from your Worker to hand the socket to the caller.
+   * 
+   * @param request - The incoming WebSocket upgrade request
+   * @param shard - Shard to subscribe to, for sharded pools (default: 0)
+   */
+  subscribeEvents(request: Request, shard?: number): Promise<Response>;
 }
 
 /**
@@ -86,12 +332,18 @@ export function createWarmPool(
   config?: WarmPoolConfig
 ): WarmPoolClient {
   const poolName = config?.poolName ?? 'global-pool';
-  const poolId = poolNamespace.idFromName(poolName);
-  const poolStub = poolNamespace.get(poolId);
   const getCacheKey = (id: string) => `${poolName}:${id}`;
 
-  // Extract pool config (excluding poolName which is client-side only)
-  const { poolName: _, idCache: kvStore, ...poolConfig } = config ?? {};
+  // Extract pool config (excluding options that are client-side only)
+  const { poolName: _, idCache: kvStore, shards: shardCount = 1, ...poolConfig } = config ?? {};
+
+  // Fail fast on schedule mistakes instead of when the pool applies the config
+  if (poolConfig.schedule) {
+    validateSchedule(poolConfig.schedule);
+  }
+
+  const shards = getShards(poolNamespace, poolName, Math.max(1, Math.floor(shardCount)), poolConfig, kvStore !== undefined);
+  const shardFor = (id: string) => shards[shardForKey(id, shards.length)];
 
   const resolveFromCache = async (id: string): Promise<DurableObjectStub | null> => {
     if (!kvStore) return null;
@@ -116,21 +368,37 @@ export function createWarmPool(
     return null;
   };
 
+  const setMode = async (mode: PoolMode): Promise<void> => {
+    await Promise.all(shards.map(async (target) => {
+      await syncConfig(target);
+      await target.stub.setMode(mode);
+    }));
+  };
+
   return {
-    async getContainer(id: string): Promise<DurableObjectStub> {
+    async getContainer(id: string, options?: GetContainerOptions): Promise<DurableObjectStub> {
       const cachedContainer = await resolveFromCache(id);
       if (cachedContainer) {
-        return cachedContainer;
+        if (options?.leaseMs === undefined) {
+          return cachedContainer;
+        }
+        // A cache hit skips the pool, so extend the lease explicitly. If the lease
+        // already expired the container may belong to someone else now.
+        if (await shardFor(id).stub.renewLease(id, options.leaseMs) !== null) {
+          return cachedContainer;
+        }
+        await kvStore?.delete(getCacheKey(id));
       }
 
-      // Send config first to ensure it's always up-to-date (handles redeployments)
+      const target = shardFor(id);
+      await syncConfig(target);
+      
+      let containerUUID: string;
       try {
-        await poolStub.configure(poolConfig);
-      } catch (_error) {
-        // Keep backward-compatible behavior: continue even if config RPC fails.
+        containerUUID = await target.stub.getContainer(id, options);
+      } catch (error) {
+        throw rehydrateError(error);
       }
-      
-      const containerUUID = await poolStub.getContainer(id);
       if (kvStore) {
         await kvStore.put(getCacheKey(id), containerUUID);
       }
@@ -139,44 +407,204 @@ export function createWarmPool(
       return containerNamespace.get(doId);
     },
 
+    async prewarm(count: number, options: PrewarmOptions): Promise<void> {
+      if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`Invalid prewarm count ${count}, expected a non-negative integer`);
+      }
+
+      // Each shard keeps its share of the burst
+      await Promise.all(shards.map(async (target) => {
+        const share = splitCount(count, target.shard);
+        if (share === 0) return;
+        await syncConfig(target);
+        try {
+          await target.stub.prewarm(share, options.expiresAt, options.profile);
+        } catch (error) {
+          throw rehydrateError(error);
+        }
+      }));
+    },
+
+    async reserve(ids: string[], options: ReserveOptions): Promise<ReserveResult> {
+      const idsByShard = new Map<PoolShard, string[]>();
+      for (const id of ids) {
+        const target = shardFor(id);
+        idsByShard.set(target, [...idsByShard.get(target) ?? [], id]);
+      }
+
+      const results = await Promise.all([...idsByShard].map(async ([target, shardIDs]) => {
+        await syncConfig(target);
+        try {
+          return await target.stub.reserve(shardIDs, options.expiresAt, options.profile);
+        } catch (error) {
+          throw rehydrateError(error);
+        }
+      }));
+      return {
+        reserved: results.flatMap((result) => result.reserved),
+        failed: results.flatMap((result) => result.failed),
+      };
+    },
+
+    async release(id: string, options?: ReleaseOptions): Promise<ReleaseResult> {
+      // Send config first so the pool knows the current resetHook
+      const target = shardFor(id);
+      await syncConfig(target);
+
+      const result = await target.stub.release(id, options?.mode ?? 'stop');
+      if (kvStore) {
+        await kvStore.delete(getCacheKey(id));
+      }
+      return result;
+    },
+
+    async renewLease(id: string, leaseMs?: number): Promise<number | null> {
+      return shardFor(id).stub.renewLease(id, leaseMs);
+    },
+
     async stats(): Promise<PoolStats> {
       // Stats should remain readable even if config RPCs fail during
-      // version/config mismatches.
-      try {
-        await poolStub.configure(poolConfig);
-      } catch (_error) {
-        // Keep backwards-compatible behavior: prefer returning stats even if
-        // configuration couldn't be applied.
+      // version/config mismatches - syncConfig swallows those errors.
+      if (shards.length === 1) {
+        await syncConfig(shards[0]);
+        return getShardStats(shards[0]);
       }
 
-      const doClient = poolStub as unknown as {
-        getStats: () => Promise<PoolStats>;
-        stats?: () => Promise<PoolStats>;
+      const shardStats = await Promise.all(shards.map(async (target) => {
+        await syncConfig(target);
+        return getShardStats(target);
+      }));
+      return mergeStats(shardStats, poolConfig);
+    },
+
+    async metrics(): Promise<DetailedPoolStats> {
+      const shardMetrics = await Promise.all(shards.map(async (target) => {
+        await syncConfig(target);
+        return target.stub.getMetrics();
+      }));
+      if (shardMetrics.length === 1) {
+        return shardMetrics[0];
+      }
+
+      return {
+        ...mergeStats(shardMetrics, poolConfig),
+        metrics: shardMetrics.map((stats) => stats.metrics).reduce(mergeMetrics),
+        shards: shardMetrics,
       };
+    },
 
-      try {
-        return await doClient.getStats();
-      } catch (_error) {
-        if (typeof doClient.stats === 'function') {
-          return doClient.stats();
+    async getAssignment(id: string): Promise<AssignmentInfo | null> {
+      return shardFor(id).stub.getAssignment(id);
+    },
+
+    async getAssignmentsByContainer(containerUUID: string): Promise<AssignmentInfo[]> {
+      const index = shardForContainer(containerUUID);
+      if (index !== null && index < shards.length) {
+        return shards[index].stub.getAssignmentsByContainer(containerUUID);
+      }
+
+      // Names without a shard prefix come from an unsharded pool - ask every shard
+      const found = await Promise.all(shards.map((target) => target.stub.getAssignmentsByContainer(containerUUID)));
+      return found.flat().sort((a, b) => (a.userID < b.userID ? -1 : a.userID > b.userID ? 1 : 0));
+    },
+
+    async sessionUsage(id: string): Promise<SessionUsage | null> {
+      const target = shardFor(id);
+      await syncConfig(target);
+      return target.stub.getSessionUsage(id);
+    },
+
+    async listAssignments(options?: ListAssignmentsOptions): Promise<AssignmentPage> {
+      const limit = Math.min(1000, Math.max(1, Math.floor(options?.limit ?? 100)));
+      let { index, after } = parseAssignmentCursor(options?.cursor);
+
+      // Walk the shards in order, continuing in the next shard once one runs out
+      const assignments: AssignmentInfo[] = [];
+      while (index < shards.length && assignments.length < limit) {
+        const wanted = limit - assignments.length;
+        const page = await shards[index].stub.listAssignments(wanted, after);
+        assignments.push(...page);
+
+        if (page.length < wanted) {
+          index++;
+          after = undefined;
+        } else {
+          after = page[page.length - 1].userID;
         }
-        throw _error;
       }
+
+      return {
+        assignments,
+        cursor: index < shards.length ? formatAssignmentCursor(index, after) : null,
+      };
+    },
+
+    async overrideConfig(overrides: ConfigOverrides | null): Promise<ResolvedPoolConfig> {
+      if (overrides?.schedule) {
+        validateSchedule(overrides.schedule);
+      }
+
+      const configs = await Promise.all(shards.map(async (target) => {
+        await syncConfig(target);
+        return target.stub.overrideConfig(overrides);
+      }));
+      if (configs.length === 1) {
+        return configs[0];
+      }
+
+      // Report pool-wide values rather than the first shard's share
+      const { configOverrides } = await getShardStats(shards[0]);
+      return { ...configs[0], ...poolConfig, ...configOverrides };
+    },
+
+    setMode,
+
+    pause(): Promise<void> {
+      return setMode('paused');
+    },
+
+    drain(): Promise<void> {
+      return setMode('draining');
+    },
+
+    resume(): Promise<void> {
+      return setMode('active');
     },
 
     async shutdownPrewarmed(): Promise<void> {
-      // Send config first to ensure it's always up-to-date (handles redeployments)
-      try {
-        await poolStub.configure(poolConfig);
-      } catch (_error) {
-        // Keep backward-compatible behavior: continue even if config RPC fails.
+      await Promise.all(shards.map(async (target) => {
+        await syncConfig(target);
+        await target.stub.shutdownPrewarmed();
+      }));
+    },
+
+    async subscribeEvents(request: Request, shard = 0): Promise<Response> {
+      const target = shards[shard];
+      if (!target) {
+        return new Response(`Unknown shard ${shard}`, { status: 404 });
       }
-      
-      await poolStub.shutdownPrewarmed();
+
+      // Make sure the pool knows events.websocket is enabled before connecting
+      await syncConfig(target);
+      return target.stub.fetch(new Request(new URL('/events', request.url), request));
     },
   };
 }
 
+/**
+ * Stop reporting for a sharded pool - routes each report to the owning shard
+ */
+export interface ShardedWarmPool {
+  /**
+   * Report that a container has stopped
+   * 
+   * @param containerId - The container's name (`ctx.id.name`), which is routed to
+   *                      the shard that started it, or its Durable Object ID
+   *                      (`ctx.id.toString()`), which is reported to every shard
+   */
+  reportStopped(containerId: string): Promise<void>;
+}
+
 /**
  * Get the WarmPool Durable Object stub for RPC calls
  * 
@@ -184,7 +612,9 @@ export function createWarmPool(
  * 
  * @param poolNamespace - The WarmPool Durable Object namespace binding
  * @param poolName - Name of the pool instance (default: 'global-pool'). Use this if you have multiple container types.
- * @returns The WarmPool Durable Object stub with RPC methods
+ * @param options - Pass the same `shards` count used in `createWarmPool` for sharded pools
+ * @returns The WarmPool Durable Object stub with RPC methods, or a router to the
+ *          owning shard for sharded pools
  * 
  * @example
  * ```ts
@@ -200,8 +630,36 @@ export function createWarmPool(
  */
 export function getWarmPool(
   poolNamespace: DurableObjectNamespace<WarmPool>,
-  poolName: string = 'global-pool'
-): DurableObjectStub<WarmPool> {
-  const poolId = poolNamespace.idFromName(poolName);
-  return poolNamespace.get(poolId);
+  poolName?: string
+): DurableObjectStub<WarmPool>;
+export function getWarmPool(
+  poolNamespace: DurableObjectNamespace<WarmPool>,
+  poolName: string,
+  options: { shards: number }
+): ShardedWarmPool;
+export function getWarmPool(
+  poolNamespace: DurableObjectNamespace<WarmPool>,
+  poolName: string = 'global-pool',
+  options?: { shards: number }
+): DurableObjectStub<WarmPool> | ShardedWarmPool {
+  const count = Math.max(1, Math.floor(options?.shards ?? 1));
+  if (count === 1) {
+    const poolId = poolNamespace.idFromName(poolName);
+    return poolNamespace.get(poolId);
+  }
+
+  const stubs = getShards(poolNamespace, poolName, count, {}).map((target) => target.stub);
+  return {
+    async reportStopped(containerId: string): Promise<void> {
+      const index = shardForContainer(containerId);
+      if (index !== null && index < count) {
+        await stubs[index].reportStopped(containerId);
+        return;
+      }
+
+      // A Durable Object ID doesn't say which shard started the container - each
+      // shard ignores IDs it doesn't track
+      await Promise.all(stubs.map((stub) => stub.reportStopped(containerId)));
+    },
+  };
 }
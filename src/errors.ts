@@ -0,0 +1,104 @@
+/**
+ * Thrown when an operation does not finish within its time limit
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown by `getContainer()` when the pool is at `maxTotal` and no container
+ * became available before the acquire timeout
+ */
+export class PoolExhaustedError extends Error {
+  /** How long the caller waited (ms) */
+  readonly waited: number;
+
+  constructor(waited: number) {
+    super(`Pool exhausted: no container became available within ${waited}ms`);
+    this.name = 'PoolExhaustedError';
+    this.waited = waited;
+  }
+}
+
+/**
+ * Thrown by `getContainer()` when the pool is draining and the ID has no
+ * container assigned yet
+ */
+export class PoolDrainingError extends Error {
+  constructor() {
+    super('Pool is draining: no new containers are being assigned');
+    this.name = 'PoolDrainingError';
+  }
+}
+
+/**
+ * Thrown by `getContainer()` when no warm container is available and the
+ * circuit breaker is refusing container starts after repeated failures
+ */
+export class CircuitOpenError extends Error {
+  /** Time until the circuit lets a trial start through (ms) */
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super(`Circuit open: container starts keep failing, retry in ${retryAfter}ms`);
+    this.name = 'CircuitOpenError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown when a call names a profile that isn't in the `profiles` config
+ */
+export class UnknownProfileError extends Error {
+  /** The profile that was asked for */
+  readonly profile: string;
+
+  constructor(profile: string) {
+    super(`Unknown profile '${profile}'`);
+    this.name = 'UnknownProfileError';
+    this.profile = profile;
+  }
+}
+
+/**
+ * Restore a typed pool error from an error received over RPC
+ *
+ * Custom error classes don't survive the RPC boundary - the caller receives a
+ * plain Error with the same message. This maps known messages back to their
+ * error class and returns anything else unchanged.
+ */
+export function rehydrateError(error: unknown): unknown {
+  if (
+    !(error instanceof Error) ||
+    error instanceof PoolExhaustedError ||
+    error instanceof PoolDrainingError ||
+    error instanceof CircuitOpenError ||
+    error instanceof UnknownProfileError
+  ) {
+    return error;
+  }
+
+  const exhausted = /^Pool exhausted: no container became available within (\d+)ms/.exec(error.message);
+  if (exhausted) {
+    return new PoolExhaustedError(Number(exhausted[1]));
+  }
+
+  if (error.message.startsWith('Pool is draining:')) {
+    return new PoolDrainingError();
+  }
+
+  const circuitOpen = /^Circuit open: container starts keep failing, retry in (\d+)ms/.exec(error.message);
+  if (circuitOpen) {
+    return new CircuitOpenError(Number(circuitOpen[1]));
+  }
+
+  const unknownProfile = /^Unknown profile '(.*)'$/.exec(error.message);
+  if (unknownProfile) {
+    return new UnknownProfileError(unknownProfile[1]);
+  }
+
+  return error;
+}
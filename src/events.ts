@@ -0,0 +1,79 @@
+import type { EventSinkConfig, PoolEvent } from './types.js';
+
+/** WebSocket tag for event subscribers on the WarmPool Durable Object */
+export const EVENTS_SOCKET_TAG = 'events';
+
+/**
+ * Deliver an event to every configured sink
+ *
+ * Delivery is best-effort: a failing sink is logged and never affects pool
+ * operations or the other sinks.
+ */
+export async function deliverEvent(
+  event: PoolEvent,
+  config: EventSinkConfig,
+  env: Record<string, unknown>,
+  ctx: DurableObjectState
+): Promise<void> {
+  if (config.types && !config.types.includes(event.type)) return;
+
+  const deliveries: Promise<unknown>[] = [];
+
+  if (config.queue) {
+    const queue = env[config.queue] as Queue<PoolEvent> | undefined;
+    if (queue) {
+      deliveries.push(queue.send(event));
+    } else {
+      console.warn(`Event queue binding '${config.queue}' not found`);
+    }
+  }
+
+  if (config.webhook) {
+    const { url, headers } = typeof config.webhook === 'string' ? { url: config.webhook, headers: {} } : config.webhook;
+    deliveries.push(
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(event),
+      }).then((response) => {
+        if (!response.ok) {
+          throw new Error(`Webhook responded with ${response.status}`);
+        }
+      })
+    );
+  }
+
+  if (config.websocket) {
+    const message = JSON.stringify(event);
+    for (const socket of ctx.getWebSockets(EVENTS_SOCKET_TAG)) {
+      try {
+        socket.send(message);
+      } catch (_error) {
+        // Socket is closing - the runtime drops it from getWebSockets() once closed
+      }
+    }
+  }
+
+  const results = await Promise.allSettled(deliveries);
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error(`Failed to deliver ${event.type} event:`, result.reason);
+    }
+  }
+}
+
+/**
+ * Accept a WebSocket subscription to the event stream
+ *
+ * Sockets are accepted with the hibernation API, so idle subscribers don't keep
+ * the Durable Object in memory.
+ */
+export function acceptEventSubscriber(ctx: DurableObjectState, request: Request): Response {
+  if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+    return new Response('Expected WebSocket upgrade', { status: 426 });
+  }
+
+  const pair = new WebSocketPair();
+  ctx.acceptWebSocket(pair[1], [EVENTS_SOCKET_TAG]);
+  return new Response(null, { status: 101, webSocket: pair[0] });
+}
@@ -0,0 +1,67 @@
+import { TimeoutError } from './errors.js';
+import type { ContainerHook } from './types.js';
+
+const DEFAULT_HOOK_TIMEOUT = 30 * 1000; // 30 seconds
+
+/**
+ * Resolve after `ms` milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reject with a TimeoutError if `promise` does not settle within `ms` milliseconds
+ */
+export async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(message)), ms);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a hook against a container stub
+ *
+ * RPC hooks call the named method on the container and succeed if it resolves.
+ * HTTP hooks send a request to the container and succeed if it responds with the
+ * expected status. Throws if the hook fails or does not finish within its timeout.
+ */
+export async function runContainerHook(stub: DurableObjectStub, hook: ContainerHook): Promise<void> {
+  const timeout = hook.timeout ?? DEFAULT_HOOK_TIMEOUT;
+
+  if ('method' in hook) {
+    const target = (stub as unknown as Record<string, unknown>)[hook.method];
+    if (typeof target !== 'function') {
+      throw new Error(`Container has no RPC method '${hook.method}'`);
+    }
+    await withTimeout(
+      Promise.resolve(target.call(stub)),
+      timeout,
+      `Hook '${hook.method}' timed out after ${timeout}ms`
+    );
+    return;
+  }
+
+  const expectedStatus = hook.expectedStatus ?? 200;
+  const request = new Request(new URL(hook.path, 'http://container'), {
+    method: hook.httpMethod ?? 'GET',
+  });
+  const response = await withTimeout(
+    stub.fetch(request),
+    timeout,
+    `Hook '${hook.path}' timed out after ${timeout}ms`
+  );
+  // Drain the body so the connection can be released
+  await response.body?.cancel();
+
+  if (response.status !== expectedStatus) {
+    throw new Error(`Hook '${hook.path}' returned ${response.status}, expected ${expectedStatus}`);
+  }
+}
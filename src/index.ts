@@ -39,13 +39,67 @@
 // Core pool management
 export { WarmPool } from './pool.js';
 export { createWarmPool, getWarmPool } from './client.js';
+export { CircuitOpenError, PoolDrainingError, PoolExhaustedError, TimeoutError, UnknownProfileError } from './errors.js';
+export { renderOpenMetrics } from './metrics.js';
+
+// Administration
+export { createAdminHandler } from './admin.js';
 
 // Types
 export type {
   WarmPoolClient,
+  ShardedWarmPool,
 } from './client.js';
 
+export type {
+  AdminHandler,
+  AdminHandlerOptions,
+} from './admin.js';
+
 export type {
   WarmPoolConfig,
   PoolStats,
+  DetailedPoolStats,
+  PoolMetrics,
+  Histogram,
+  AutoscaleConfig,
+  WarmSchedule,
+  ScheduleWindow,
+  ContainerHook,
+  ContainerRpcHook,
+  ContainerHttpHook,
+  HealthCheckConfig,
+  CircuitBreakerConfig,
+  GetContainerOptions,
+  ProfileConfig,
+  ProfileStats,
+  VersionStats,
+  SessionStats,
+  ContainerStartOptions,
+  QueueStats,
+  StartupStats,
+  CircuitBreakerStats,
+  CircuitState,
+  PricingConfig,
+  UsageStats,
+  CostEstimate,
+  IdleBudgetStats,
+  SessionUsage,
+  StartError,
+  DemandStats,
+  PoolEvent,
+  PoolEventType,
+  EventSinkConfig,
+  ReleaseMode,
+  PoolMode,
+  ReleaseOptions,
+  ReleaseResult,
+  PrewarmOptions,
+  ReserveOptions,
+  ReserveResult,
+  AssignmentInfo,
+  AssignmentPage,
+  ContainerState,
+  ListAssignmentsOptions,
+  ConfigOverrides,
 } from './types.js';
@@ -0,0 +1,148 @@
+import type { DetailedPoolStats, Histogram, PoolMetrics } from './types.js';
+
+/** Bucket bounds for getContainer() latency (ms) */
+export const ACQUIRE_LATENCY_BUCKETS = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+
+/** Bucket bounds for container startup duration (ms) */
+export const STARTUP_DURATION_BUCKETS = [1000, 2500, 5000, 10000, 20000, 30000, 60000, 120000];
+
+/** Bucket bounds for the age of warm containers (ms) */
+export const WARM_AGE_BUCKETS = [60, 300, 900, 3600, 6 * 3600, 24 * 3600].map((seconds) => seconds * 1000);
+
+export function createHistogram(bounds: number[]): Histogram {
+  return { bounds, counts: new Array(bounds.length + 1).fill(0), sum: 0, count: 0 };
+}
+
+export function observe(histogram: Histogram, value: number): void {
+  let index = histogram.bounds.findIndex((bound) => value <= bound);
+  if (index === -1) index = histogram.bounds.length;
+
+  histogram.counts[index]++;
+  histogram.sum += value;
+  histogram.count++;
+}
+
+/**
+ * Add two histograms with the same bounds
+ */
+export function mergeHistograms(a: Histogram, b: Histogram): Histogram {
+  return {
+    bounds: a.bounds,
+    counts: a.counts.map((count, index) => count + (b.counts[index] ?? 0)),
+    sum: a.sum + b.sum,
+    count: a.count + b.count,
+  };
+}
+
+export function createMetrics(): PoolMetrics {
+  return {
+    warmHits: 0,
+    coldStarts: 0,
+    healthCheckEvictions: 0,
+    stopFailures: 0,
+    acquireLatency: createHistogram(ACQUIRE_LATENCY_BUCKETS),
+    startupDuration: createHistogram(STARTUP_DURATION_BUCKETS),
+    warmAge: createHistogram(WARM_AGE_BUCKETS),
+  };
+}
+
+/**
+ * Add the metrics of two shards
+ */
+export function mergeMetrics(a: PoolMetrics, b: PoolMetrics): PoolMetrics {
+  return {
+    warmHits: a.warmHits + b.warmHits,
+    coldStarts: a.coldStarts + b.coldStarts,
+    healthCheckEvictions: a.healthCheckEvictions + b.healthCheckEvictions,
+    stopFailures: a.stopFailures + b.stopFailures,
+    acquireLatency: mergeHistograms(a.acquireLatency, b.acquireLatency),
+    startupDuration: mergeHistograms(a.startupDuration, b.startupDuration),
+    warmAge: mergeHistograms(a.warmAge, b.warmAge),
+  };
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labels(values: Record<string, string>): string {
+  const entries = Object.entries(values);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+/**
+ * Render pool stats in the OpenMetrics text format (also readable by Prometheus)
+ *
+ * Durations are converted from milliseconds to seconds, following Prometheus
+ * naming conventions.
+ *
+ * @param stats - Stats from `WarmPoolClient.metrics()`
+ * @param prefix - Metric name prefix (default: 'warm_pool')
+ */
+export function renderOpenMetrics(stats: DetailedPoolStats, prefix = 'warm_pool'): string {
+  const lines: string[] = [];
+
+  const family = (name: string, type: string, help: string) => {
+    lines.push(`# TYPE ${prefix}_${name} ${type}`, `# HELP ${prefix}_${name} ${help}`);
+  };
+  const sample = (name: string, value: number, labelValues: Record<string, string> = {}) => {
+    lines.push(`${prefix}_${name}${labels(labelValues)} ${Number.isFinite(value) ? value : 0}`);
+  };
+  const histogram = (name: string, type: 'histogram' | 'gaugehistogram', help: string, data: Histogram) => {
+    family(name, type, help);
+    let cumulative = 0;
+    data.bounds.forEach((bound, index) => {
+      cumulative += data.counts[index];
+      sample(`${name}_bucket`, cumulative, { le: String(bound / 1000) });
+    });
+    sample(`${name}_bucket`, data.count, { le: '+Inf' });
+    const [count, sum] = type === 'histogram' ? ['count', 'sum'] : ['gcount', 'gsum'];
+    sample(`${name}_${count}`, data.count);
+    sample(`${name}_${sum}`, data.sum / 1000);
+  };
+
+  family('containers', 'gauge', 'Containers tracked by the pool');
+  sample('containers', stats.warm, { state: 'warm' });
+  sample('containers', stats.assigned, { state: 'assigned' });
+  sample('containers', stats.starting, { state: 'starting' });
+
+  family('profile_containers', 'gauge', 'Containers tracked by the pool, per profile');
+  for (const [profile, profileStats] of Object.entries(stats.profiles)) {
+    sample('profile_containers', profileStats.warm, { profile, state: 'warm' });
+    sample('profile_containers', profileStats.assigned, { profile, state: 'assigned' });
+  }
+
+  family('sessions', 'gauge', 'User IDs with an assigned container');
+  sample('sessions', stats.sessions.assigned);
+
+  family('session_slots_free', 'gauge', 'Slots left on assigned containers for more IDs');
+  sample('session_slots_free', stats.sessions.freeSlots);
+
+  family('warm_target', 'gauge', 'Number of warm containers the pool is aiming for');
+  sample('warm_target', stats.warmTarget);
+
+  family('queue_depth', 'gauge', 'Callers waiting for capacity');
+  sample('queue_depth', stats.queue.depth);
+
+  family('acquisitions', 'counter', 'Containers assigned to new IDs, by whether a warm container was available');
+  sample('acquisitions_total', stats.metrics.warmHits, { result: 'warm' });
+  sample('acquisitions_total', stats.metrics.coldStarts, { result: 'cold' });
+
+  family('container_starts', 'counter', 'Container start attempts, by outcome');
+  sample('container_starts_total', stats.startup.started, { result: 'success' });
+  sample('container_starts_total', stats.startup.failed, { result: 'failure' });
+
+  family('health_check_evictions', 'counter', 'Containers removed because they were found stopped');
+  sample('health_check_evictions_total', stats.metrics.healthCheckEvictions);
+
+  family('stop_failures', 'counter', 'Failed attempts to stop a container');
+  sample('stop_failures_total', stats.metrics.stopFailures);
+
+  histogram('acquire_latency_seconds', 'histogram', 'Time to return a container from getContainer()', stats.metrics.acquireLatency);
+  histogram('startup_duration_seconds', 'histogram', 'Time to start and warm up a container', stats.metrics.startupDuration);
+  histogram('warm_age_seconds', 'gaugehistogram', 'Age of the containers currently warm', stats.metrics.warmAge);
+
+  lines.push('# EOF');
+  return lines.join('\n') + '\n';
+}
@@ -1,33 +1,88 @@
 import { DurableObject } from 'cloudflare:workers';
+import {
+  computeWarmTarget,
+  createDemandState,
+  sampleDemand,
+  smoothStartupLatency,
+  type DemandState,
+} from './autoscale.js';
+import { CircuitOpenError, PoolDrainingError, PoolExhaustedError, TimeoutError, UnknownProfileError } from './errors.js';
+import { acceptEventSubscriber, deliverEvent } from './events.js';
+import { runContainerHook, sleep, withTimeout } from './hooks.js';
+import { createHistogram, createMetrics, observe, WARM_AGE_BUCKETS } from './metrics.js';
+import { activeScheduleWindow } from './schedule.js';
+import { shardConfig, shardContainerName, type ShardInfo } from './shards.js';
+import { PoolStore, type AssignmentRow, type ContainerRow, type ContainerStatus } from './store.js';
+import { addIdleSample, estimateCost, idleBudgetWarmCap, idleSecondsLastHour, pricePerSecond, type IdleSample } from './usage.js';
 import type {
+  AssignmentInfo,
+  CircuitBreakerStats,
+  CircuitState,
+  ConfigOverrides,
+  ContainerHook,
+  ContainerStartOptions,
+  ContainerState,
+  DetailedPoolStats,
+  GetContainerOptions,
   PoolConfigInternal,
+  PoolEvent,
+  PoolEventType,
+  PoolMetrics,
+  PoolMode,
   PoolStats,
+  ProfileStats,
+  ReleaseMode,
+  ReleaseResult,
+  ReserveResult,
+  ResolvedPoolConfig,
+  SessionStats,
+  SessionUsage,
+  StartError,
+  StartupStats,
+  UsageStats,
+  VersionStats,
 } from './types.js';
 
-const DEFAULT_CONFIG: Required<PoolConfigInternal> = {
+const DEFAULT_CONFIG: ResolvedPoolConfig = {
   warmTarget: 5,
   refreshInterval: 10 * 1000, // 10 seconds
+  startConcurrency: 5,
+  startTimeout: 2 * 60 * 1000, // 2 minutes
+  startRetries: 2,
+  startRetryBackoff: 1000, // 1 second
+  acquireTimeout: 30 * 1000, // 30 seconds
+  leaseExpiry: 'stop',
+  rolloutBatchSize: 5,
+  sessionsPerContainer: 1,
 };
 
+/** Key in `PoolStats.versions` for containers started without a version */
+const UNVERSIONED = 'unversioned';
+
+const POOL_MODES: PoolMode[] = ['active', 'paused', 'draining'];
+
+const DEFAULT_HEALTH_FAILURE_THRESHOLD = 3;
+const DEFAULT_HEALTH_CHECK_CONCURRENCY = 10;
+const DEFAULT_PROBE_TIMEOUT = 5 * 1000; // 5 seconds
+
+const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_COOLDOWN = 30 * 1000; // 30 seconds
+
+/** How long the usage of a session is kept after it last held a container */
+const SESSION_USAGE_RETENTION = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/** Profile used when getContainer() is called without one */
+const DEFAULT_PROFILE = 'default';
+
 /**
  * Interface for container methods we call via RPC
  */
 interface ContainerRpc {
-  startAndWaitForPorts(): Promise<void>;
+  startAndWaitForPorts(args?: { startOptions?: ContainerStartOptions }): Promise<void>;
   stop(signal?: string): Promise<void>;
   renewActivityTimeout(): void;
 }
 
-/**
- * State returned by Container.getState()
- * @see https://github.com/cloudflare/containers/blob/main/src/types/index.ts
- */
-type ContainerState = {
-  lastChange: number;
-  status: 'running' | 'stopping' | 'stopped' | 'healthy' | 'stopped_with_code';
-  exitCode?: number;
-};
-
 /**
  * Interface for checking container state via RPC.
  * The Container class from @cloudflare/containers exposes getState() by default.
@@ -36,30 +91,130 @@ interface ContainerWithState {
   getState(): Promise<ContainerState>;
 }
 
+/**
+ * Outcome of a container health check
+ * - `healthy`: running, and passed the probe if there is one
+ * - `stopped`: getState() reports the container isn't running
+ * - `failing`: getState() or the probe failed, which may be transient
+ */
+type ContainerHealth = 'healthy' | 'stopped' | 'failing';
+
+/**
+ * Persisted circuit breaker state. Whether an open circuit is half-open
+ * follows from `openedAt` and the cooldown.
+ */
+type CircuitBreakerState = Pick<CircuitBreakerStats, 'consecutiveFailures' | 'openedAt' | 'lastError'>;
+
+/**
+ * Extra warm containers requested with prewarm()
+ */
+interface PrewarmBurst {
+  profile: string;
+  count: number;
+  /** When the burst ends (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * A caller waiting in the queue for capacity
+ */
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 /**
  * WarmPool Durable Object - manages a pool of pre-warmed containers
  * 
  * Maintains warm containers ready for immediate use. When a user requests a container
- * by ID, they get a 1:1 mapping that persists. No sharing between user IDs.
+ * by ID, they get a mapping that persists. User IDs only share containers when
+ * `sessionsPerContainer` is above 1.
+ * 
+ * Containers and assignments are stored in SQLite tables (see PoolStore), so the
+ * class must be declared in a `new_sqlite_classes` migration.
  * 
  * All public methods are exposed as RPC calls.
  */
 export class WarmPool<Env extends { CONTAINER: DurableObjectNamespace } = { CONTAINER: DurableObjectNamespace }> extends DurableObject<Env> {
-  private config: Required<PoolConfigInternal> = DEFAULT_CONFIG;
-  
-  /** Container UUIDs that are warm and available for assignment */
-  private warmContainers: Set<string> = new Set();
+  /** Effective config: defaults, then the client's config, then runtime overrides */
+  private config: ResolvedPoolConfig = DEFAULT_CONFIG;
+
+  /**
+   * Whether clients cache ID mappings in `idCache`. Cached IDs keep pointing
+   * at their container after the pool releases it on its own.
+   */
+  private clientIdCache = false;
+
+  /** Config last sent by a client through configure() */
+  private clientConfig: PoolConfigInternal = {};
+
+  /** Pool-wide settings changed at runtime, which take precedence over the client's config */
+  private configOverrides: PoolConfigInternal = {};
+
+  /** Operating mode - see PoolMode */
+  private mode: PoolMode = 'active';
+
+  /** Position of this instance in a sharded pool, or null if unsharded */
+  private shard: ShardInfo | null = null;
   
-  /** Maps user-provided IDs to container UUIDs (1:1, no sharing) */
-  private assignments: Map<string, string> = new Map();
+  /** Tracked containers (warm or assigned) and user ID assignments (shared if `sessionsPerContainer` > 1) */
+  private store: PoolStore;
   
-  /** Container UUIDs currently being started - don't mark these as stopped during health check */
+  /**
+   * Container UUIDs this instance is currently starting - don't mark these as
+   * stopped during health check. Every start is also recorded in storage
+   * (see `reconcileStarts()`).
+   */
   private startingContainers: Set<string> = new Set();
+
+  /**
+   * Starts waiting to retry after a failed attempt. They keep their slot
+   * against maxTotal, so queued callers can't take it in the meantime.
+   */
+  private retryingStarts = 0;
+
+  /** Number of warm containers being started by in-flight replenishment, per profile */
+  private pendingWarmStarts: Map<string, number> = new Map();
+
+  /** Containers started on demand (cold starts), per profile */
+  private coldStarts: Record<string, number> = {};
+
+  /** Active prewarm() bursts, persisted so they survive restarts */
+  private bursts: PrewarmBurst[] = [];
+
+  /** Total warm time sampled each refresh, covering the last hour, for the idle budget */
+  private idleSamples: IdleSample[] = [];
+
+  /** Container startup counters, persisted so they survive restarts */
+  private startup: StartupStats = { started: 0, failed: 0, timedOut: 0, lastError: null };
+
+  /** Circuit breaker state, persisted so an open circuit survives restarts */
+  private circuit: CircuitBreakerState = { consecutiveFailures: 0, openedAt: null, lastError: null };
+
+  /** Whether the trial start of a half-open circuit is in progress */
+  private circuitTrial = false;
+
+  /** Demand measurements used for autoscaling */
+  private demand: DemandState = createDemandState(Date.now());
+
+  /** Counters and histograms for metrics, persisted on every alarm */
+  private metrics: PoolMetrics = createMetrics();
+
+  /** getContainer() calls in progress, per user ID, so concurrent calls share one */
+  private acquisitions: Map<string, Promise<string>> = new Map();
+
+  /** Callers waiting for capacity when the pool is at maxTotal, in arrival order */
+  private waiters: Waiter[] = [];
+
+  /** Queue counters for stats (in memory only, like the queue itself) */
+  private queueStats = { served: 0, timedOut: 0, totalWait: 0, maxWait: 0 };
   
   private initialized = false;
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
+    this.store = new PoolStore(ctx.storage);
   }
 
   // ===========================
@@ -70,51 +225,264 @@ export class WarmPool<Env extends { CONTAINER: DurableObjectNamespace } = { CONT
    * Get a container UUID for the given user ID
    * - If this ID already has an assigned container and it's still running, return it
    * - Otherwise assign a warm container (or start a new one)
+   * - If the pool is at maxTotal, wait in a FIFO queue for a container to free up
+   * 
+   * Calls for an ID that arrive while another call for it is in progress share
+   * its result (and its options), so the ID never gets two containers.
+   * @throws PoolExhaustedError if no container frees up within the timeout
+   */
+  async getContainer(userID: string, options: GetContainerOptions = {}): Promise<string> {
+    await this.init();
+    // An expired lease on a shared container only frees the ID's slot, and its
+    // cache entry would keep leading it to the container without an assignment
+    if (options.leaseMs !== undefined && this.clientIdCache && this.config.sessionsPerContainer > 1) {
+      throw new Error('Leases are not supported with idCache when sessionsPerContainer is above 1');
+    }
+
+    const containerUUID = await this.acquire(userID, options);
+    // The ID has arrived, so a container reserved for it is now in use
+    this.store.claimReservation(userID);
+    return containerUUID;
+  }
+
+  /**
+   * Keep `count` more warm containers of a profile until `expiresAt`, on top
+   * of its warm target
+   */
+  async prewarm(count: number, expiresAt: number, profile: string = DEFAULT_PROFILE): Promise<void> {
+    await this.init();
+    this.assertProfile(profile);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`Invalid prewarm count ${count}, expected a non-negative integer`);
+    }
+    if (count === 0 || expiresAt <= Date.now()) return;
+
+    this.bursts.push({ profile, count, expiresAt });
+    await this.ctx.storage.put('prewarmBursts', this.bursts);
+    await this.adjustPool();
+  }
+
+  /**
+   * Assign containers to user IDs ahead of their first getContainer() call,
+   * at most `startConcurrency` at a time. Reservations that haven't been
+   * claimed by `expiresAt` are released, returning the container to the warm
+   * pool.
    */
-  async getContainer(userID: string): Promise<string> {
+  async reserve(userIDs: string[], expiresAt: number, profile: string = DEFAULT_PROFILE): Promise<ReserveResult> {
     await this.init();
+    this.assertProfile(profile);
+
+    const result: ReserveResult = { reserved: [], failed: [] };
+    const queue = [...new Set(userIDs)];
+
+    const worker = async () => {
+      for (let userID = queue.shift(); userID !== undefined; userID = queue.shift()) {
+        // An ID that already has a container, or is getting one for a caller
+        // right now, has nothing to claim
+        const existing = this.store.getAssignment(userID) !== null || this.acquisitions.has(userID);
+        try {
+          await this.acquire(userID, { profile });
+          if (!existing) {
+            this.store.setReservation(userID, expiresAt);
+          }
+          result.reserved.push(userID);
+        } catch (error) {
+          result.failed.push({ id: userID, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    };
+
+    const workers = Math.max(1, Math.min(this.config.startConcurrency, queue.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    return result;
+  }
+
+  /**
+   * Acquire a container for a user ID, joining the acquisition in progress for it if any
+   */
+  private acquire(userID: string, options: GetContainerOptions): Promise<string> {
+    let acquisition = this.acquisitions.get(userID);
+    if (!acquisition) {
+      acquisition = this.timeAcquisition(userID, options).finally(() => this.acquisitions.delete(userID));
+      this.acquisitions.set(userID, acquisition);
+    }
+    return acquisition;
+  }
+
+  private async timeAcquisition(userID: string, options: GetContainerOptions): Promise<string> {
+    const startedAt = Date.now();
+    const containerUUID = await this.acquireContainer(userID, options);
+    observe(this.metrics.acquireLatency, Date.now() - startedAt);
+    return containerUUID;
+  }
+
+  /**
+   * Find or assign a container for getContainer()
+   */
+  private async acquireContainer(userID: string, options: GetContainerOptions): Promise<string> {
+    const profile = options.profile ?? DEFAULT_PROFILE;
+    this.assertProfile(profile);
 
     // Check if this user ID already has an assigned container
-    const existingContainerUUID = this.assignments.get(userID);
+    const existingContainerUUID = this.store.getAssignment(userID);
     if (existingContainerUUID) {
-      // Verify the container is still running
-      const running = await this.isContainerRunning(existingContainerUUID);
-      if (running) {
+      // Verify the container is still running. A single failed check isn't
+      // enough to take a container away from its user.
+      const health = await this.checkContainer(existingContainerUUID);
+      if (!this.recordHealth(existingContainerUUID, health)) {
+        if (options.leaseMs !== undefined) {
+          this.store.setLease(userID, options.leaseMs, Date.now());
+        }
         return existingContainerUUID;
       }
-      // Container stopped - remove stale assignment and assign a new one
-      this.assignments.delete(userID);
-      await this.persist();
+      // Container stopped or keeps failing - remove stale assignment and assign a new one
+      await this.evictContainer(existingContainerUUID, health, { userID });
+      this.notifyWaiters();
     }
 
-    // Try to assign a warm container
-    if (this.warmContainers.size > 0) {
-      const containerUUID = this.warmContainers.values().next().value as string;
-      this.warmContainers.delete(containerUUID);
-      this.assignments.set(userID, containerUUID);
-      await this.persist();
-      return containerUUID;
-    }
+    const timeout = options.timeout ?? this.config.acquireTimeout;
+    const enqueuedAt = Date.now();
+    const deadline = enqueuedAt + timeout;
+    let waited = false;
 
-    // No warm containers available - start a new one
-    const containerUUID = await this.startContainer();
-    if (containerUUID) {
-      this.assignments.set(userID, containerUUID);
-      await this.persist();
-      return containerUUID;
+    // Queue behind callers that are already waiting to keep acquisition FIFO
+    if (this.waiters.length > 0) {
+      await this.waitForCapacity(deadline, timeout);
+      waited = true;
     }
 
-    throw new Error('Failed to start container');
+    for (;;) {
+      if (this.mode === 'draining') {
+        throw new PoolDrainingError();
+      }
+
+      // Fill a free slot on a shared container before taking a warm one
+      let containerUUID = this.findSharedContainer(profile);
+      const shared = containerUUID !== null;
+
+      const [warm] = shared ? [] : this.store.listWarm(profile, 1, this.config.version);
+      const warmHit = Boolean(warm);
+      if (warm) {
+        // Try to assign a warm container
+        containerUUID = warm.uuid;
+        this.demand.windowWarmHits++;
+        this.metrics.warmHits++;
+      } else if (!shared && this.freeCapacity() > 0) {
+        // No warm containers available - start a new one if below maxTotal,
+        // unless starts keep failing
+        if (!this.startAllowed()) {
+          throw new CircuitOpenError(this.circuitRetryAfter());
+        }
+        this.demand.windowColdStarts++;
+        this.metrics.coldStarts++;
+        this.coldStarts[profile] = (this.coldStarts[profile] ?? 0) + 1;
+        const version = this.config.version ?? null;
+        // The start takes its slot against maxTotal before yielding, so
+        // concurrent callers can't claim the same free capacity
+        containerUUID = await this.startContainer(profile);
+        await this.ctx.storage.put('coldStarts', this.coldStarts);
+        if (!containerUUID) {
+          throw this.circuitState() === 'closed'
+            ? new Error('Failed to start container')
+            : new CircuitOpenError(this.circuitRetryAfter());
+        }
+        this.trackContainer(containerUUID, profile, 'assigned', version);
+      }
+
+      if (containerUUID) {
+        const now = Date.now();
+        this.store.assign(userID, containerUUID, now);
+        if (options.leaseMs !== undefined) {
+          this.store.setLease(userID, options.leaseMs, now);
+        }
+        if (waited) {
+          this.recordQueueWait(now - enqueuedAt);
+        }
+        this.emit('container.assigned', {
+          userID,
+          containerUUID,
+          profile,
+          duration: now - enqueuedAt,
+          detail: { warm: warmHit, queued: waited, shared },
+        });
+        if (warmHit) {
+          this.topUp(profile);
+        }
+        return containerUUID;
+      }
+
+      // Pool is full - keep our place at the front of the queue until something frees up
+      await this.waitForCapacity(deadline, timeout, waited);
+      waited = true;
+    }
   }
 
   /**
    * Report that a container has stopped - removes it from tracking
    * Call this from your container's onStop() method
+   * 
+   * @param containerId - The container's UUID, or its Durable Object ID (`ctx.id.toString()`)
+   */
+  async reportStopped(containerId: string): Promise<void> {
+    await this.init();
+    const container = this.store.findContainer(containerId);
+    if (container) {
+      this.store.removeContainer(container.uuid);
+      this.emit('container.stop_reported', { containerUUID: container.uuid, profile: container.profile });
+      this.notifyWaiters();
+    }
+  }
+
+  /**
+   * Release the container assigned to the given user ID
+   * - `stop`: stop the container immediately
+   * - `recycle`: run the configured reset hook and, if it succeeds, return the
+   *   container to the warm pool. Falls back to stopping it otherwise.
+   */
+  async release(userID: string, mode: ReleaseMode = 'stop'): Promise<ReleaseResult> {
+    await this.init();
+
+    // The container stays tracked (and counted against maxTotal) until it is
+    // either back in the warm pool or stopped
+    const containerUUID = this.store.unassign(userID);
+    if (!containerUUID) {
+      return 'not_found';
+    }
+
+    const container = this.store.getContainer(containerUUID);
+    if (container && container.sessions > 0) {
+      // Other IDs still share the container - only free this ID's slot
+      this.emit('container.released', { userID, containerUUID, detail: { mode, result: 'released' } });
+      this.notifyWaiters();
+      return 'released';
+    }
+
+    // Containers of an older version or past their maximum age are stopped
+    // rather than returned to the pool
+    const reusable = container !== null && !this.needsReplacement(container, Date.now());
+
+    if (mode === 'recycle' && reusable && await this.resetContainer(containerUUID)) {
+      this.store.setStatus(containerUUID, 'warm', Date.now());
+      this.emit('container.released', { userID, containerUUID, detail: { mode, result: 'recycled' } });
+      this.notifyWaiters();
+      return 'recycled';
+    }
+
+    await this.stopContainer(containerUUID);
+    this.store.removeContainer(containerUUID);
+    this.emit('container.released', { userID, containerUUID, detail: { mode, result: 'stopped' } });
+    this.notifyWaiters();
+    return 'stopped';
+  }
+
+  /**
+   * Extend the lease on a user ID's assignment
+   * @param leaseMs - New lease duration (defaults to the current one)
+   * @returns The new expiry (ms since epoch), or null if the ID has no leased assignment
    */
-  async reportStopped(containerUUID: string): Promise<void> {
+  async renewLease(userID: string, leaseMs?: number): Promise<number | null> {
     await this.init();
-    this.removeContainer(containerUUID);
-    await this.persist();
+    return this.store.renewLease(userID, Date.now(), leaseMs);
   }
 
   /**
@@ -123,21 +491,198 @@ export class WarmPool<Env extends { CONTAINER: DurableObjectNamespace } = { CONT
   async getStats(): Promise<PoolStats> {
     await this.init();
 
+    const warm = this.store.countContainers('warm');
+    const assigned = this.store.countContainers('assigned');
+
     return {
-      warm: this.warmContainers.size,
-      assigned: this.assignments.size,
-      total: this.warmContainers.size + this.assignments.size,
+      warm,
+      assigned,
+      total: warm + assigned,
+      starting: this.store.countStarting(),
+      startup: this.startup,
+      circuitBreaker: this.circuitBreakerStats(),
+      usage: this.usageStats(),
+      sessions: this.sessionStats(),
+      reserved: this.store.countReservations(),
+      prewarm: this.profileNames().reduce((total, profile) => total + this.burstCount(profile), 0),
+      queue: {
+        depth: this.waiters.length,
+        served: this.queueStats.served,
+        timedOut: this.queueStats.timedOut,
+        averageWait: this.queueStats.served > 0
+          ? Math.round(this.queueStats.totalWait / this.queueStats.served)
+          : 0,
+        maxWait: this.queueStats.maxWait,
+      },
+      warmTarget: this.targetWarmCount(DEFAULT_PROFILE),
+      scheduleWindow: this.config.schedule
+        ? activeScheduleWindow(this.config.schedule, Date.now())?.label ?? null
+        : null,
+      demand: {
+        demandRate: this.demand.demandRate,
+        coldStartRate: this.demand.coldStartRate,
+        startupLatency: this.demand.startupLatency,
+      },
+      profiles: this.profileStats(),
+      versions: this.versionStats(),
+      mode: this.mode,
       config: this.config,
+      configOverrides: this.configOverrides,
     };
   }
 
+  /**
+   * Get pool statistics with warm-hit counters and latency, startup and age histograms
+   */
+  async getMetrics(): Promise<DetailedPoolStats> {
+    // A single instance never reports shards - the client merges them
+    const { shards: _, ...stats } = await this.getStats();
+
+    const now = Date.now();
+    const warmAge = createHistogram(WARM_AGE_BUCKETS);
+    for (const { createdAt } of this.store.listWarm()) {
+      observe(warmAge, now - createdAt);
+    }
+
+    return { ...stats, metrics: { ...this.metrics, warmAge } };
+  }
+
   /**
    * Update pool configuration
+   * @param shard - This instance's position when the pool is sharded
+   * @param client.idCache - Whether the client caches ID mappings in KV
+   */
+  async configure(config: PoolConfigInternal, shard?: ShardInfo, client: { idCache?: boolean } = {}): Promise<void> {
+    await this.init();
+    this.clientConfig = config;
+    await this.ctx.storage.put('config', config);
+
+    const idCache = client.idCache ?? false;
+    if (idCache !== this.clientIdCache) {
+      this.clientIdCache = idCache;
+      await this.ctx.storage.put('clientIdCache', idCache);
+    }
+
+    if (shard && (shard.index !== this.shard?.index || shard.count !== this.shard?.count)) {
+      this.shard = shard;
+      await this.ctx.storage.put('shard', shard);
+    }
+
+    await this.applyConfigAndRollOut();
+  }
+
+  /**
+   * Change settings at runtime, on top of the config sent by clients
+   * 
+   * Overrides are pool-wide values; sharded pools apply their share. They are
+   * merged into the current overrides, and a null value removes an override.
+   * 
+   * @param overrides - Settings to change, or null to remove all overrides
+   * @returns The resulting config
+   */
+  async overrideConfig(overrides: ConfigOverrides | null): Promise<ResolvedPoolConfig> {
+    await this.init();
+
+    const merged: Record<string, unknown> = overrides ? { ...this.configOverrides } : {};
+    for (const [key, value] of Object.entries(overrides ?? {})) {
+      if (value === null || value === undefined) {
+        delete merged[key];
+      } else {
+        merged[key] = value;
+      }
+    }
+
+    this.configOverrides = merged as PoolConfigInternal;
+    await this.ctx.storage.put('configOverrides', this.configOverrides);
+    await this.applyConfigAndRollOut();
+    return this.config;
+  }
+
+  /**
+   * Get the container time a user ID has used, including its current assignment
+   * @returns The usage, or null if the ID hasn't held a container recently
+   */
+  async getSessionUsage(userID: string): Promise<SessionUsage | null> {
+    await this.init();
+
+    const containerUUID = this.store.getAssignment(userID);
+    if (containerUUID) {
+      this.store.accrueUsage(Date.now(), containerUUID);
+    }
+
+    const usage = this.store.getSessionUsage(userID);
+    if (!usage) {
+      return null;
+    }
+
+    const { pricing, profiles } = this.config;
+    const assignedSeconds = usage.ms / 1000;
+    return {
+      userID,
+      profile: usage.profile,
+      assignedSeconds,
+      estimatedCost: pricing ? assignedSeconds * pricePerSecond(pricing, profiles?.[usage.profile]) : null,
+    };
+  }
+
+  /**
+   * Get the assignment of a user ID
+   */
+  async getAssignment(userID: string): Promise<AssignmentInfo | null> {
+    await this.init();
+    const assignment = this.store.describeAssignment(userID);
+    return assignment && this.toAssignmentInfo(assignment);
+  }
+
+  /**
+   * Get the assignments holding a container - more than one if it's shared
+   * @param containerUUID - The container's UUID, as in `AssignmentInfo.containerUUID`
+   */
+  async getAssignmentsByContainer(containerUUID: string): Promise<AssignmentInfo[]> {
+    await this.init();
+    const assignments = this.store.describeContainerAssignments(containerUUID);
+    return Promise.all(assignments.map((assignment) => this.toAssignmentInfo(assignment)));
+  }
+
+  /**
+   * List assignments ordered by user ID
+   * @param limit - Maximum number of assignments to return
+   * @param after - Only return user IDs sorting after this one
+   */
+  async listAssignments(limit: number, after?: string): Promise<AssignmentInfo[]> {
+    await this.init();
+    return Promise.all(this.store.listAssignments(limit, after).map((assignment) => this.toAssignmentInfo(assignment)));
+  }
+
+  /**
+   * Change the operating mode
+   * - `active`: refill the warm pool
+   * - `paused`: keep the warm containers, but start and stop none
+   * - `draining`: stop all warm containers. IDs that already have a container
+   *   keep it until it is released or stops, new IDs get a PoolDrainingError.
+   * 
+   * The mode is persisted until changed again.
    */
-  async configure(config: PoolConfigInternal): Promise<void> {
+  async setMode(mode: PoolMode): Promise<void> {
     await this.init();
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    await this.ctx.storage.put('config', this.config);
+    if (!POOL_MODES.includes(mode)) {
+      throw new Error(`Invalid pool mode '${mode}', expected ${POOL_MODES.join(', ')}`);
+    }
+    if (mode === this.mode) return;
+
+    const previous = this.mode;
+    this.mode = mode;
+    await this.ctx.storage.put('mode', mode);
+    console.log(`Pool mode changed from ${previous} to ${mode}`);
+    this.emit('pool.mode_changed', { detail: { from: previous, to: mode } });
+
+    if (mode === 'draining') {
+      // Waiting callers can no longer be served
+      this.rejectWaiters(new PoolDrainingError());
+      await this.shutdownPrewarmed();
+    } else if (mode === 'active') {
+      await this.adjustPool();
+    }
   }
 
   /**
@@ -147,19 +692,45 @@ export class WarmPool<Env extends { CONTAINER: DurableObjectNamespace } = { CONT
   async shutdownPrewarmed(): Promise<void> {
     await this.init();
 
-    const containersToStop = [...this.warmContainers];
+    const containersToStop = this.store.listWarm();
 
-    for (const containerUUID of containersToStop) {
-      try {
-        const stub = this.getContainerStub(containerUUID);
-        await (stub as unknown as ContainerRpc).stop();
-        this.warmContainers.delete(containerUUID);
-      } catch (error) {
-        console.error(`Failed to stop container ${containerUUID}:`, error);
+    for (const { uuid } of containersToStop) {
+      if (await this.stopContainer(uuid)) {
+        this.store.removeContainer(uuid);
       }
     }
     
-    await this.persist();
+    this.notifyWaiters();
+  }
+
+  // ===========================
+  // HTTP / WebSocket Handlers
+  // ===========================
+
+  /**
+   * HTTP entry point - serves WebSocket subscriptions to lifecycle events at /events
+   */
+  async fetch(request: Request): Promise<Response> {
+    await this.init();
+
+    const url = new URL(request.url);
+    if (url.pathname === '/events') {
+      if (!this.config.events?.websocket) {
+        return new Response('WebSocket events are not enabled', { status: 404 });
+      }
+      return acceptEventSubscriber(this.ctx, request);
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }
+
+  /**
+   * Event subscribers are receive-only - incoming messages are ignored
+   */
+  async webSocketMessage(_ws: WebSocket, _message: string | ArrayBuffer): Promise<void> {}
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    ws.close(code, reason);
   }
 
   // ===========================
@@ -173,11 +744,27 @@ export class WarmPool<Env extends { CONTAINER: DurableObjectNamespace } = { CONT
     await this.init();
 
     try {
+      // Settle starts that were interrupted or never tracked
+      await this.reconcileStarts();
+
       // First, check health of all tracked containers and remove any that stopped
       // This handles cases where onStop() failed to report
       await this.checkContainerHealth();
 
-      // Then adjust pool size to maintain warmTarget
+      // Release containers whose lease ran out, and reservations nobody claimed
+      await this.expireLeases();
+      await this.expireReservations();
+      await this.pruneBursts();
+
+      // Account container time, and measure idle spend for the idle budget
+      await this.recordUsage();
+
+      // Fold the latest demand into the smoothed rates used by autoscaling
+      this.demand = sampleDemand(this.demand, Date.now(), this.config.autoscale);
+      await this.ctx.storage.put('demand', this.demand);
+      await this.ctx.storage.put('metrics', this.metrics);
+
+      // Then adjust pool size to maintain the warm target
       await this.adjustPool();
 
       // Keep warm containers alive by renewing their activity timeout
@@ -194,7 +781,7 @@ export class WarmPool<Env extends { CONTAINER: DurableObjectNamespace } = { CONT
    * Renew activity timeout on all warm containers to prevent them from going stale
    */
   private async keepWarmContainersAlive(): Promise<void> {
-    for (const containerUUID of this.warmContainers) {
+    for (const { uuid: containerUUID } of this.store.listWarm()) {
       try {
         const stub = this.getContainerStub(containerUUID);
         (stub as unknown as ContainerRpc).renewActivityTimeout();
@@ -209,92 +796,516 @@ export class WarmPool<Env extends { CONTAINER: DurableObjectNamespace } = { CONT
   // ===========================
 
   /**
-   * Initialize the pool - loads state from storage
+   * Initialize the pool - creates the schema and loads state from storage
    */
   private async init(): Promise<void> {
     if (this.initialized) return;
 
-    const storedWarm = await this.ctx.storage.get<Set<string>>('warmContainers');
-    if (storedWarm) {
-      this.warmContainers = new Set(storedWarm);
-    }
+    this.store.migrate();
+    await this.migrateLegacyState();
 
-    const storedAssignments = await this.ctx.storage.get<Map<string, string>>('assignments');
-    if (storedAssignments) {
-      this.assignments = new Map(storedAssignments);
+    const storedColdStarts = await this.ctx.storage.get<Record<string, number>>('coldStarts');
+    if (storedColdStarts) {
+      this.coldStarts = storedColdStarts;
     }
 
     const storedConfig = await this.ctx.storage.get<PoolConfigInternal>('config');
     if (storedConfig) {
-      this.config = { ...DEFAULT_CONFIG, ...storedConfig };
+      this.clientConfig = storedConfig;
+    }
+
+    const storedOverrides = await this.ctx.storage.get<PoolConfigInternal>('configOverrides');
+    if (storedOverrides) {
+      this.configOverrides = storedOverrides;
+    }
+
+    this.clientIdCache = await this.ctx.storage.get<boolean>('clientIdCache') ?? false;
+
+    const storedShard = await this.ctx.storage.get<ShardInfo>('shard');
+    if (storedShard) {
+      this.shard = storedShard;
+    }
+
+    this.applyConfig();
+    this.mode = await this.ctx.storage.get<PoolMode>('mode') ?? 'active';
+
+    const storedStartup = await this.ctx.storage.get<StartupStats>('startup');
+    if (storedStartup) {
+      this.startup = storedStartup;
+    }
+
+    const storedCircuit = await this.ctx.storage.get<CircuitBreakerState>('circuit');
+    if (storedCircuit) {
+      this.circuit = storedCircuit;
+    }
+
+    const storedDemand = await this.ctx.storage.get<DemandState>('demand');
+    if (storedDemand) {
+      this.demand = storedDemand;
+    }
+
+    const storedMetrics = await this.ctx.storage.get<PoolMetrics>('metrics');
+    if (storedMetrics) {
+      this.metrics = storedMetrics;
     }
 
+    this.idleSamples = await this.ctx.storage.get<IdleSample[]>('idleSamples') ?? [];
+    this.bursts = await this.ctx.storage.get<PrewarmBurst[]>('prewarmBursts') ?? [];
+
     this.initialized = true;
 
+    // Starts recorded by a previous run of this instance were interrupted -
+    // settle them without holding up this call
+    if (this.store.countStarting() > 0) {
+      this.ctx.waitUntil(
+        this.reconcileStarts().catch((error) => {
+          console.error('Start reconciliation error:', error);
+        })
+      );
+    }
+
     // Schedule refresh alarm
     await this.scheduleRefresh();
   }
 
-  private async persist(): Promise<void> {
-    await this.ctx.storage.put('warmContainers', this.warmContainers);
-    await this.ctx.storage.put('assignments', this.assignments);
+  /**
+   * Combine defaults, the client's config and this instance's share of the overrides
+   */
+  private applyConfig(): void {
+    const overrides = this.shard ? shardConfig(this.configOverrides, this.shard) : this.configOverrides;
+    this.config = { ...DEFAULT_CONFIG, ...this.clientConfig, ...overrides };
   }
 
-  private async scheduleRefresh(): Promise<void> {
-    const alarm = await this.ctx.storage.getAlarm();
-    if (!alarm) {
-      await this.ctx.storage.setAlarm(Date.now() + this.config.refreshInterval);
+  /**
+   * Apply the current config, and start replacing warm containers right away
+   * if the version changed rather than waiting for the next refresh
+   */
+  private async applyConfigAndRollOut(): Promise<void> {
+    const previousVersion = this.config.version;
+    this.applyConfig();
+    if (this.config.version !== previousVersion) {
+      console.log(`Version changed from ${previousVersion ?? UNVERSIONED} to ${this.config.version ?? UNVERSIONED}`);
+      await this.adjustPool();
     }
   }
 
   /**
-   * Remove a container from pool tracking (warm or assigned)
-   * @returns true if the container was found and removed
+   * Move state written by older versions (a `warmContainers` Set and an
+   * `assignments` Map under single keys) into the SQL tables
    */
-  private removeContainer(containerUUID: string): boolean {
-    let removed = false;
+  private async migrateLegacyState(): Promise<void> {
+    const legacy = await this.ctx.storage.get<Set<string> | Map<string, string>>([
+      'warmContainers',
+      'assignments',
+      'containerProfiles',
+    ]);
+    if (legacy.size === 0) return;
 
-    // Remove from warm containers if present
-    if (this.warmContainers.delete(containerUUID)) {
-      removed = true;
-    }
+    const warm = (legacy.get('warmContainers') as Set<string> | undefined) ?? new Set<string>();
+    const assignments = (legacy.get('assignments') as Map<string, string> | undefined) ?? new Map<string, string>();
+    const profiles = (legacy.get('containerProfiles') as Map<string, string> | undefined) ?? new Map<string, string>();
 
-    // Find and remove from assignments if present
-    for (const [userID, uuid] of this.assignments) {
-      if (uuid === containerUUID) {
-        this.assignments.delete(userID);
-        removed = true;
-        break;
+    this.store.transaction(() => {
+      for (const containerUUID of warm) {
+        this.trackContainer(containerUUID, profiles.get(containerUUID) ?? DEFAULT_PROFILE, 'warm', null);
       }
-    }
+      for (const [userID, containerUUID] of assignments) {
+        this.trackContainer(containerUUID, profiles.get(containerUUID) ?? DEFAULT_PROFILE, 'assigned', null);
+        this.store.assign(userID, containerUUID, Date.now());
+      }
+    });
 
-    return removed;
+    await this.ctx.storage.delete(['warmContainers', 'assignments', 'containerProfiles']);
+    console.log(`Migrated ${warm.size} warm containers and ${assignments.size} assignments to SQL storage`);
   }
 
   /**
-   * Start a new container and return its UUID
+   * Start tracking a newly started container
+   * @param version - Config version when the start began, which can differ
+   *                  from the current one if the config changed meanwhile
    */
-  private async startContainer(): Promise<string | null> {
-    const containerUUID = crypto.randomUUID();
-
-    // Track that we're starting this container to avoid false positives in health check
-    this.startingContainers.add(containerUUID);
-
-    try {
-      const stub = this.getContainerStub(containerUUID);
-      const rpc = stub as unknown as ContainerRpc;
-
-      // Start the container and wait for ports (container class handles port config)
-      await rpc.startAndWaitForPorts();
-
-      console.log(`Container ${containerUUID} started successfully`);
-      return containerUUID;
-    } catch (error) {
-      console.error(`Failed to start container ${containerUUID}:`, error);
-      return null;
-    } finally {
-      this.startingContainers.delete(containerUUID);
-    }
+  private trackContainer(containerUUID: string, profile: string, status: ContainerStatus, version: string | null): void {
+    this.store.transaction(() => {
+      this.store.addContainer({
+        uuid: containerUUID,
+        doId: this.env.CONTAINER.idFromName(containerUUID).toString(),
+        status,
+        profile,
+        version,
+        createdAt: Date.now(),
+      });
+      this.store.removeStarting(containerUUID);
+    });
+  }
+
+  /**
+   * Whether a container was started with the configured version. Without a
+   * configured version, every container is current.
+   */
+  private isCurrentVersion(container: Pick<ContainerRow, 'version'>): boolean {
+    return this.config.version === undefined || container.version === this.config.version;
+  }
+
+  /**
+   * Whether a container should be replaced rather than kept warm: it runs an
+   * older version, is older than `maxWarmAge`, or has been warm for longer
+   * than `maxIdleWarm`
+   */
+  private needsReplacement(container: ContainerRow, now: number): boolean {
+    const { maxWarmAge, maxIdleWarm } = this.config;
+    return !this.isCurrentVersion(container)
+      || (maxWarmAge !== undefined && now - container.createdAt >= maxWarmAge)
+      || (maxIdleWarm !== undefined && container.status === 'warm' && now - container.updatedAt >= maxIdleWarm);
+  }
+
+  /**
+   * An assigned container with a free slot for another ID of the profile, if
+   * containers are shared. Containers due for replacement take no new IDs.
+   */
+  private findSharedContainer(profile: string): string | null {
+    const { sessionsPerContainer, version, maxWarmAge } = this.config;
+    if (sessionsPerContainer <= 1) {
+      return null;
+    }
+    const startedAfter = maxWarmAge === undefined ? 0 : Date.now() - maxWarmAge;
+    return this.store.findSharedContainer(profile, sessionsPerContainer, version ?? null, startedAfter);
+  }
+
+  /**
+   * Occupancy of assigned containers
+   */
+  private sessionStats(): SessionStats {
+    const capacity = Math.max(1, this.config.sessionsPerContainer);
+    const stats: SessionStats = { assigned: 0, freeSlots: 0, occupancy: {} };
+    for (const { sessions, n } of this.store.countBySessions()) {
+      stats.assigned += sessions * n;
+      stats.freeSlots += Math.max(0, capacity - sessions) * n;
+      stats.occupancy[sessions] = n;
+    }
+    return stats;
+  }
+
+  private async toAssignmentInfo(assignment: AssignmentRow): Promise<AssignmentInfo> {
+    return {
+      ...assignment,
+      outdated: !this.isCurrentVersion(assignment),
+      state: await this.getContainerState(assignment.containerUUID),
+    };
+  }
+
+  private async scheduleRefresh(): Promise<void> {
+    const alarm = await this.ctx.storage.getAlarm();
+    if (!alarm) {
+      await this.ctx.storage.setAlarm(Date.now() + this.config.refreshInterval);
+    }
+  }
+
+  /**
+   * Start a new container, retrying failed attempts with exponential backoff.
+   * The start holds its slot against maxTotal until it succeeds or gives up.
+   * @returns The container UUID, or null if every attempt failed
+   */
+  private async startContainer(profile: string): Promise<string | null> {
+    const { startRetries, startRetryBackoff } = this.config;
+
+    for (let attempt = 0; attempt <= startRetries; attempt++) {
+      if (attempt > 0) {
+        await sleep(startRetryBackoff * 2 ** (attempt - 1));
+        // Take back the slot the failed attempt kept for this retry
+        this.retryingStarts--;
+      }
+
+      // Give up once the circuit breaker opens
+      if (!this.startAllowed()) {
+        this.notifyWaiters();
+        return null;
+      }
+      if (this.circuitState() === 'half-open') {
+        this.circuitTrial = true;
+      }
+
+      const containerUUID = await this.tryStartContainer(profile, attempt < startRetries);
+      if (containerUUID) {
+        return containerUUID;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Make a single attempt to start a new container and run the warm-up hook
+   * @param retry - Whether another attempt follows a failure. If so, the slot
+   *   is kept for it rather than released to waiters.
+   * @returns The container UUID, or null if the container failed to start or warm up
+   */
+  private async tryStartContainer(profile: string, retry = false): Promise<string | null> {
+    const containerUUID = shardContainerName(this.shard, crypto.randomUUID());
+    const startedAt = Date.now();
+
+    // Track that we're starting this container to avoid false positives in health check,
+    // and record it before it can run in case the pool restarts before tracking it
+    this.startingContainers.add(containerUUID);
+    this.store.addStarting({ uuid: containerUUID, profile, version: this.config.version ?? null, startedAt });
+
+    try {
+      const stub = this.getContainerStub(containerUUID);
+      const rpc = stub as unknown as ContainerRpc;
+
+      // Start the container and wait for ports (container class handles port config)
+      const startOptions = this.config.profiles?.[profile]?.startOptions;
+      await withTimeout(
+        rpc.startAndWaitForPorts(startOptions ? { startOptions } : undefined),
+        this.config.startTimeout,
+        `Container ${containerUUID} did not start within ${this.config.startTimeout}ms`
+      );
+    } catch (error) {
+      console.error(`Failed to start container ${containerUUID}:`, error);
+      if (retry) {
+        this.retryingStarts++;
+      }
+      // A container that timed out may still come up - keep its record until it is
+      // stopped, so reconciliation stops it if this attempt fails
+      if (!(error instanceof TimeoutError) || await this.stopContainer(containerUUID)) {
+        this.store.removeStarting(containerUUID);
+      }
+      await this.recordStartFailure(containerUUID, profile, Date.now() - startedAt, error);
+      this.startingContainers.delete(containerUUID);
+      if (!retry) {
+        this.notifyWaiters();
+      }
+      return null;
+    }
+
+    try {
+      // Open ports don't mean the app is ready - run the warm-up hook if configured
+      if (this.config.warmup) {
+        await runContainerHook(this.getContainerStub(containerUUID), this.config.warmup);
+      }
+
+      console.log(`Container ${containerUUID} (${profile}) started successfully`);
+      const duration = Date.now() - startedAt;
+      observe(this.metrics.startupDuration, duration);
+      this.demand.startupLatency = smoothStartupLatency(this.demand.startupLatency, duration, this.config.autoscale);
+      this.emit('container.started', { containerUUID, profile, duration });
+      this.startup.started++;
+      await this.ctx.storage.put('startup', this.startup);
+      await this.recordCircuitSuccess();
+      return containerUUID;
+    } catch (error) {
+      console.error(`Warm-up failed for container ${containerUUID}, stopping it:`, error);
+      if (retry) {
+        this.retryingStarts++;
+      }
+      if (await this.stopContainer(containerUUID)) {
+        this.store.removeStarting(containerUUID);
+      }
+      await this.recordStartFailure(containerUUID, profile, Date.now() - startedAt, error);
+      this.startingContainers.delete(containerUUID);
+      if (!retry) {
+        this.notifyWaiters();
+      }
+      return null;
+    } finally {
+      // On success the caller tracks the container as warm or assigned right away,
+      // so the slot isn't released to waiters here
+      this.startingContainers.delete(containerUUID);
+    }
+  }
+
+  /**
+   * Settle recorded starts that no start in progress owns: left behind when
+   * the pool restarted mid-start, or when a started container couldn't be
+   * tracked or stopped. Containers that are running and pass the warm-up hook
+   * are adopted as warm, the rest are stopped so they can't run untracked.
+   */
+  private async reconcileStarts(): Promise<void> {
+    const orphans = this.store.listStarting().filter((start) => !this.startingContainers.has(start.uuid));
+
+    for (const { uuid, profile, version } of orphans) {
+      const health = await this.checkContainer(uuid, this.config.warmup);
+      // A concurrent reconciliation may have settled it meanwhile
+      if (!this.store.hasStarting(uuid)) continue;
+
+      if (health === 'healthy' && this.profileNames().includes(profile)) {
+        console.log(`Adopting container ${uuid} (${profile}) from an interrupted start`);
+        this.trackContainer(uuid, profile, 'warm', version);
+        this.emit('container.reconciled', { containerUUID: uuid, profile, detail: { result: 'adopted' } });
+        this.notifyWaiters();
+      } else if (await this.stopContainer(uuid)) {
+        console.log(`Stopped container ${uuid} (${profile}) from an interrupted start`);
+        this.store.removeStarting(uuid);
+        this.emit('container.reconciled', { containerUUID: uuid, profile, detail: { result: 'stopped' } });
+        this.notifyWaiters();
+      }
+    }
+  }
+
+  private async recordStartFailure(
+    containerUUID: string,
+    profile: string,
+    duration: number,
+    error: unknown
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const timedOut = error instanceof TimeoutError;
+
+    this.startup.failed++;
+    if (timedOut) {
+      this.startup.timedOut++;
+    }
+    this.startup.lastError = { containerUUID, message, at: Date.now() };
+    await this.ctx.storage.put('startup', this.startup);
+
+    this.emit('container.start_failed', { containerUUID, profile, duration, detail: { error: message, timedOut } });
+    await this.recordCircuitFailure(this.startup.lastError);
+  }
+
+  /**
+   * When the open circuit lets a trial start through, or null while closed
+   */
+  private circuitRetryAt(): number | null {
+    if (this.circuit.openedAt === null) {
+      return null;
+    }
+    return this.circuit.openedAt + (this.config.circuitBreaker?.cooldown ?? DEFAULT_CIRCUIT_COOLDOWN);
+  }
+
+  /**
+   * Current circuit breaker state. An open circuit turns half-open once its
+   * cooldown has passed.
+   */
+  private circuitState(): CircuitState {
+    const retryAt = this.circuitRetryAt();
+    if (retryAt === null) {
+      return 'closed';
+    }
+    return Date.now() >= retryAt ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether the circuit breaker lets a container start through. A half-open
+   * circuit lets one trial start through at a time.
+   */
+  private startAllowed(): boolean {
+    const state = this.circuitState();
+    return state === 'closed' || (state === 'half-open' && !this.circuitTrial);
+  }
+
+  /**
+   * Time until the circuit lets a trial start through (ms)
+   */
+  private circuitRetryAfter(): number {
+    const retryAt = this.circuitRetryAt();
+    return retryAt === null ? 0 : Math.max(0, retryAt - Date.now());
+  }
+
+  /**
+   * Count a start failure, and open the circuit after `failureThreshold`
+   * failures in a row or when the trial start of a half-open circuit fails
+   */
+  private async recordCircuitFailure(error: StartError): Promise<void> {
+    const threshold = this.config.circuitBreaker?.failureThreshold ?? DEFAULT_CIRCUIT_FAILURE_THRESHOLD;
+    const state = this.circuitState();
+    this.circuit.consecutiveFailures++;
+    this.circuit.lastError = error;
+
+    const trialFailed = state === 'half-open' && this.circuitTrial;
+    const tripped = state === 'closed' && threshold > 0 && this.circuit.consecutiveFailures >= threshold;
+    if (trialFailed || tripped) {
+      this.circuit.openedAt = Date.now();
+      console.warn(`Circuit opened after ${this.circuit.consecutiveFailures} failed starts: ${error.message}`);
+      this.emit('pool.circuit_opened', {
+        detail: { failures: this.circuit.consecutiveFailures, error: error.message },
+      });
+    }
+
+    this.circuitTrial = false;
+    await this.ctx.storage.put('circuit', this.circuit);
+  }
+
+  /**
+   * Reset the failure count after a successful start, closing the circuit
+   */
+  private async recordCircuitSuccess(): Promise<void> {
+    const wasOpen = this.circuit.openedAt !== null;
+    this.circuitTrial = false;
+    if (!wasOpen && this.circuit.consecutiveFailures === 0) {
+      return;
+    }
+
+    this.circuit.consecutiveFailures = 0;
+    this.circuit.openedAt = null;
+    await this.ctx.storage.put('circuit', this.circuit);
+
+    if (wasOpen) {
+      console.log('Circuit closed after a successful start');
+      this.emit('pool.circuit_closed');
+    }
+  }
+
+  private circuitBreakerStats(): CircuitBreakerStats {
+    return { state: this.circuitState(), retryAt: this.circuitRetryAt(), ...this.circuit };
+  }
+
+  /**
+   * Stop a container
+   * @returns true if the stop RPC succeeded
+   */
+  private async stopContainer(containerUUID: string): Promise<boolean> {
+    try {
+      const stub = this.getContainerStub(containerUUID);
+      await (stub as unknown as ContainerRpc).stop();
+      return true;
+    } catch (error) {
+      console.error(`Failed to stop container ${containerUUID}:`, error);
+      this.metrics.stopFailures++;
+      return false;
+    }
+  }
+
+  /**
+   * Emit a lifecycle event to the configured sinks without blocking the caller
+   */
+  private emit(type: PoolEventType, fields: Omit<PoolEvent, 'type' | 'timestamp'> = {}): void {
+    const sinks = this.config.events;
+    if (!sinks) return;
+
+    const event: PoolEvent = { type, timestamp: Date.now(), ...fields };
+    if (this.shard && this.shard.count > 1) {
+      event.shard = this.shard.index;
+    }
+
+    const env = this.env as unknown as Record<string, unknown>;
+    this.ctx.waitUntil(
+      deliverEvent(event, sinks, env, this.ctx).catch((error) => {
+        console.error(`Failed to deliver ${type} event:`, error);
+      })
+    );
+  }
+
+  /**
+   * Run the configured reset hook on a released container
+   * @returns true if the container is running and was reset successfully
+   */
+  private async resetContainer(containerUUID: string): Promise<boolean> {
+    const hook = this.config.resetHook;
+    if (!hook) {
+      console.warn(`No resetHook configured, stopping container ${containerUUID} instead of recycling`);
+      return false;
+    }
+
+    if (!await this.isContainerRunning(containerUUID)) {
+      return false;
+    }
+
+    try {
+      await runContainerHook(this.getContainerStub(containerUUID), hook);
+      return true;
+    } catch (error) {
+      console.error(`Reset hook failed for container ${containerUUID}:`, error);
+      return false;
+    }
   }
 
   /**
@@ -304,94 +1315,554 @@ export class WarmPool<Env extends { CONTAINER: DurableObjectNamespace } = { CONT
    * A container is considered running only if its status is 'running' or 'healthy'.
    */
   private async isContainerRunning(containerUUID: string): Promise<boolean> {
+    return await this.checkContainer(containerUUID) === 'healthy';
+  }
+
+  /**
+   * Read a container's state with getState()
+   * @returns The state, or null if the call failed
+   */
+  private async getContainerState(containerUUID: string): Promise<ContainerState | null> {
+    try {
+      return await (this.getContainerStub(containerUUID) as unknown as ContainerWithState).getState();
+    } catch (error) {
+      console.warn(`Failed to get state of ${containerUUID}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check a container's state with getState(), then run the health probe on
+   * it if one is given
+   */
+  private async checkContainer(containerUUID: string, probe?: ContainerHook): Promise<ContainerHealth> {
     // Don't check containers that are currently being started
     if (this.startingContainers.has(containerUUID)) {
-      return true;
+      return 'healthy';
     }
 
+    const stub = this.getContainerStub(containerUUID);
     try {
-      const stub = this.getContainerStub(containerUUID);
-      const container = stub as unknown as ContainerWithState;
-      const state = await container.getState();
-      
+      const state = await (stub as unknown as ContainerWithState).getState();
       // Container is running only if status is 'running' or 'healthy'
-      const isRunning = state.status === 'running' || state.status === 'healthy';
-      return isRunning;
+      if (state.status !== 'running' && state.status !== 'healthy') {
+        return 'stopped';
+      }
     } catch (error) {
-      // If the call fails, assume stopped - better to clean up and reassign
-      // than to keep a stale reference
-      console.warn(`Failed to check running status for ${containerUUID}, assuming stopped:`, error);
+      console.warn(`Failed to check running status for ${containerUUID}:`, error);
+      return 'failing';
+    }
+
+    if (probe) {
+      try {
+        await runContainerHook(stub, { timeout: DEFAULT_PROBE_TIMEOUT, ...probe });
+      } catch (error) {
+        console.warn(`Health probe failed for ${containerUUID}:`, error);
+        return 'failing';
+      }
+    }
+
+    return 'healthy';
+  }
+
+  /**
+   * Record the outcome of a health check
+   * @returns true if the container should be evicted: it stopped, or failed
+   *          `failureThreshold` checks in a row
+   */
+  private recordHealth(containerUUID: string, health: ContainerHealth): boolean {
+    if (health === 'healthy') {
+      this.store.clearHealthFailures(containerUUID);
       return false;
     }
+    if (health === 'stopped') {
+      return true;
+    }
+
+    const failures = this.store.recordHealthFailure(containerUUID);
+    const threshold = Math.max(1, this.config.healthCheck?.failureThreshold ?? DEFAULT_HEALTH_FAILURE_THRESHOLD);
+    console.warn(`Container ${containerUUID} failed ${failures} of ${threshold} health checks`);
+    return failures >= threshold;
+  }
+
+  /**
+   * Stop tracking a container that failed its health check. Containers that
+   * are still running (e.g. hung) are stopped first.
+   * @returns true if the container was tracked
+   */
+  private async evictContainer(
+    containerUUID: string,
+    health: ContainerHealth,
+    fields: Pick<PoolEvent, 'userID' | 'profile'>
+  ): Promise<boolean> {
+    if (health !== 'stopped') {
+      await this.stopContainer(containerUUID);
+    }
+    if (!this.store.removeContainer(containerUUID)) {
+      return false;
+    }
+
+    this.metrics.healthCheckEvictions++;
+    this.emit('container.evicted', { ...fields, containerUUID, detail: { reason: health } });
+    return true;
   }
 
   /**
-   * Check all tracked containers and remove any that have stopped
+   * Check all tracked containers, `healthCheck.concurrency` at a time, and
+   * remove any that have stopped or keep failing
    * This provides resilience if onStop() fails to report
    */
   private async checkContainerHealth(): Promise<void> {
-    const allContainerUUIDs = [
-      ...this.warmContainers,
-      ...this.assignments.values(),
-    ];
-
+    const { probe, concurrency = DEFAULT_HEALTH_CHECK_CONCURRENCY } = this.config.healthCheck ?? {};
+    const queue = this.store.listContainers();
     let anyRemoved = false;
 
-    for (const containerUUID of allContainerUUIDs) {
-      const running = await this.isContainerRunning(containerUUID);
-      if (!running) {
-        console.log(`Health check: container ${containerUUID} is not running, removing from pool`);
-        if (this.removeContainer(containerUUID)) {
+    const worker = async () => {
+      for (let container = queue.shift(); container !== undefined; container = queue.shift()) {
+        const health = await this.checkContainer(container.uuid, probe);
+        if (!this.recordHealth(container.uuid, health)) continue;
+
+        console.log(`Health check: container ${container.uuid} is ${health}, removing from pool`);
+        if (await this.evictContainer(container.uuid, health, { profile: container.profile })) {
           anyRemoved = true;
         }
       }
-    }
+    };
+
+    const workers = Math.max(1, Math.min(concurrency, queue.length));
+    await Promise.all(Array.from({ length: workers }, worker));
 
     if (anyRemoved) {
-      await this.persist();
+      this.notifyWaiters();
+    }
+  }
+
+  /**
+   * Release every assignment whose lease has expired, according to `leaseExpiry`.
+   * With `idCache`, containers are stopped instead of recycled: the expired
+   * ID's cache entry would still lead to the container once another ID has it.
+   */
+  private async expireLeases(): Promise<void> {
+    for (const userID of this.store.listExpiredLeases(Date.now())) {
+      const mode = this.clientIdCache ? 'stop' : this.config.leaseExpiry;
+      console.log(`Lease for ${userID} expired, releasing container (${mode})`);
+      await this.release(userID, mode);
+    }
+  }
+
+  /**
+   * Release every reservation that wasn't claimed in time. The container was
+   * never used, so it goes straight back to the warm pool unless it is due
+   * for replacement.
+   */
+  private async expireReservations(): Promise<void> {
+    for (const userID of this.store.listExpiredReservations(Date.now())) {
+      console.log(`Reservation for ${userID} expired unclaimed, releasing its container`);
+      const containerUUID = this.store.unassign(userID);
+      if (!containerUUID) continue;
+
+      const container = this.store.getContainer(containerUUID);
+      let result: ReleaseResult;
+      if (container && container.sessions > 0) {
+        result = 'released';
+      } else if (container && !this.needsReplacement(container, Date.now())) {
+        this.store.setStatus(containerUUID, 'warm', Date.now());
+        result = 'recycled';
+      } else {
+        await this.stopContainer(containerUUID);
+        this.store.removeContainer(containerUUID);
+        result = 'stopped';
+      }
+      this.emit('container.released', { userID, containerUUID, detail: { mode: 'reservation_expired', result } });
+      this.notifyWaiters();
+    }
+  }
+
+  /**
+   * Number of warm containers the pool should keep ready for a profile,
+   * reduced while the idle budget is exceeded
+   */
+  private targetWarmCount(profile: string): number {
+    return this.warmTargets()[profile] ?? 0;
+  }
+
+  /**
+   * Warm target of every profile. While the idle budget is exceeded, the
+   * total is capped at what the budget sustains, serving profiles in order
+   * (the default profile first).
+   */
+  private warmTargets(): Record<string, number> {
+    const targets: Record<string, number> = {};
+    for (const profile of this.profileNames()) {
+      targets[profile] = this.baseWarmTarget(profile);
+    }
+
+    const budget = this.config.maxIdleContainerSecondsPerHour;
+    if (budget === undefined || idleSecondsLastHour(this.idleSamples) <= budget) {
+      return targets;
+    }
+
+    let remaining = idleBudgetWarmCap(budget);
+    for (const profile of Object.keys(targets)) {
+      targets[profile] = Math.min(targets[profile], remaining);
+      remaining -= targets[profile];
+    }
+    return targets;
+  }
+
+  /**
+   * Number of warm containers the pool should keep ready for a profile,
+   * before the idle budget
+   * - None while the pool is draining
+   * - Raised by active `prewarm()` bursts
+   * - Named profiles use their fixed `warmTarget`
+   * - With `autoscale`, derived from smoothed demand and startup latency,
+   *   using the active schedule window's target as a floor
+   * - Otherwise the active schedule window's target, or the fixed `warmTarget`
+   */
+  private baseWarmTarget(profile: string): number {
+    if (this.mode === 'draining') {
+      return 0;
+    }
+    return this.configuredWarmTarget(profile) + this.burstCount(profile);
+  }
+
+  private configuredWarmTarget(profile: string): number {
+    if (profile !== DEFAULT_PROFILE) {
+      return this.config.profiles?.[profile]?.warmTarget ?? 0;
+    }
+
+    const scheduled = this.config.schedule
+      ? activeScheduleWindow(this.config.schedule, Date.now())?.window.warmTarget
+      : undefined;
+
+    if (this.config.autoscale) {
+      const autoscaled = computeWarmTarget(this.demand, this.config.autoscale, this.config.refreshInterval);
+      return Math.max(autoscaled, scheduled ?? 0);
+    }
+    return scheduled ?? this.config.warmTarget;
+  }
+
+  /**
+   * Extra warm containers of a profile requested by bursts that haven't ended
+   */
+  private burstCount(profile: string): number {
+    const now = Date.now();
+    return this.bursts
+      .filter((burst) => burst.profile === profile && burst.expiresAt > now)
+      .reduce((total, burst) => total + burst.count, 0);
+  }
+
+  /**
+   * Forget bursts that have ended
+   */
+  private async pruneBursts(): Promise<void> {
+    const now = Date.now();
+    const active = this.bursts.filter((burst) => burst.expiresAt > now);
+    if (active.length < this.bursts.length) {
+      this.bursts = active;
+      await this.ctx.storage.put('prewarmBursts', this.bursts);
+    }
+  }
+
+  /**
+   * @throws Error if the profile isn't configured
+   */
+  private assertProfile(profile: string): void {
+    if (profile !== DEFAULT_PROFILE && !this.config.profiles?.[profile]) {
+      throw new UnknownProfileError(profile);
     }
   }
 
   /**
-   * Adjust the pool to maintain warmTarget containers ready
-   * - Starts new containers if below target
+   * Names of all configured profiles, including the default profile
+   */
+  private profileNames(): string[] {
+    return [...new Set([DEFAULT_PROFILE, ...Object.keys(this.config.profiles ?? {})])];
+  }
+
+  private profileStats(): Record<string, ProfileStats> {
+    const stats: Record<string, ProfileStats> = {};
+    for (const profile of this.profileNames()) {
+      stats[profile] = {
+        warm: 0,
+        assigned: 0,
+        warmTarget: this.targetWarmCount(profile),
+        coldStarts: this.coldStarts[profile] ?? 0,
+      };
+    }
+
+    for (const { profile, status, n } of this.store.countByProfile()) {
+      const entry = stats[profile];
+      if (entry) entry[status] += n;
+    }
+
+    return stats;
+  }
+
+  private usageStats(): UsageStats {
+    this.store.accrueUsage(Date.now());
+    const usage = this.store.listUsage();
+    const seconds = (status: ContainerStatus) =>
+      usage.filter((row) => row.status === status).reduce((total, row) => total + row.ms, 0) / 1000;
+
+    const { pricing, profiles, maxIdleContainerSecondsPerHour: budget } = this.config;
+    let idleBudget: UsageStats['idleBudget'] = null;
+    if (budget !== undefined) {
+      const idleSeconds = idleSecondsLastHour(this.idleSamples);
+      const base = this.profileNames().reduce((total, profile) => total + this.baseWarmTarget(profile), 0);
+      const reduced = Object.values(this.warmTargets()).reduce((total, target) => total + target, 0);
+      idleBudget = {
+        limit: budget,
+        idleSecondsLastHour: idleSeconds,
+        exceeded: idleSeconds > budget,
+        warmTargetReduction: base - reduced,
+      };
+    }
+
+    return {
+      warmSeconds: seconds('warm'),
+      assignedSeconds: seconds('assigned'),
+      estimatedCost: pricing ? estimateCost(usage, pricing, profiles) : null,
+      idleBudget,
+    };
+  }
+
+  /**
+   * Account container time up to now, and sample the total warm time to
+   * measure idle spend over the last hour
+   */
+  private async recordUsage(): Promise<void> {
+    const now = Date.now();
+    this.store.accrueUsage(now);
+    this.store.pruneSessionUsage(now - SESSION_USAGE_RETENTION);
+
+    const warmMs = this.store.listUsage()
+      .filter((row) => row.status === 'warm')
+      .reduce((total, row) => total + row.ms, 0);
+    this.idleSamples = addIdleSample(this.idleSamples, { at: now, warmMs });
+    await this.ctx.storage.put('idleSamples', this.idleSamples);
+  }
+
+  private versionStats(): Record<string, VersionStats> {
+    const stats: Record<string, VersionStats> = {};
+    for (const { version, status, n } of this.store.countByVersion()) {
+      const entry = stats[version ?? UNVERSIONED] ??= { warm: 0, assigned: 0 };
+      entry[status] += n;
+    }
+    return stats;
+  }
+
+  /**
+   * Adjust the pool to maintain each profile's warm target
+   * - Starts new containers in the background if below target
    * - Stops excess containers if above target
+   * - Replaces warm containers of an older version or past their maximum
+   *   age, stopping them only once enough fresh ones are warm (or to make
+   *   room under maxTotal)
+   * - Does nothing while the pool is paused
    */
   private async adjustPool(): Promise<void> {
-    const diff = this.config.warmTarget - this.warmContainers.size;
-
-    if (diff > 0) {
-      // Need more warm containers - start them
-      console.log(`Scaling up pool: need ${diff} more warm containers`);
-      for (let i = 0; i < diff; i++) {
-        const containerUUID = await this.startContainer();
-        if (containerUUID) {
-          this.warmContainers.add(containerUUID);
-        }
+    if (this.mode === 'paused') return;
+
+    const profiles = this.profileNames();
+    const toStart: string[] = [];
+    const toStop: string[] = [];
+    /** Stale warm containers kept for now, in the order they may be stopped */
+    const staleKept: string[] = [];
+    const now = Date.now();
+
+    for (const profile of profiles) {
+      const warm = this.store.listWarm(profile);
+      const fresh = warm.filter((container) => !this.needsReplacement(container, now)).map((container) => container.uuid);
+      const stale = warm.filter((container) => this.needsReplacement(container, now)).map((container) => container.uuid);
+      const pending = this.pendingWarmStarts.get(profile) ?? 0;
+      const target = this.targetWarmCount(profile);
+      const diff = target - fresh.length - pending;
+
+      if (diff > 0) {
+        // Replace stale containers in batches, but fill a plain shortfall right away
+        const count = stale.length > 0 ? Math.min(diff, this.config.rolloutBatchSize) : diff;
+        for (let i = 0; i < count; i++) toStart.push(profile);
+      } else if (diff < 0 && pending === 0) {
+        toStop.push(...fresh.slice(0, -diff));
+      }
+
+      // Stale containers beyond what's needed to stay at the target have been replaced
+      const replaced = Math.min(stale.length, Math.max(0, fresh.length + stale.length - target));
+      toStop.push(...stale.slice(0, replaced));
+      staleKept.push(...stale.slice(replaced));
+    }
+
+    // Warm containers of profiles that were removed from the config
+    for (const container of this.store.listWarm()) {
+      if (!profiles.includes(container.profile)) {
+        toStop.push(container.uuid);
       }
-      await this.persist();
-    } else if (diff < 0) {
+    }
+
+    // At maxTotal, stale containers would block their own replacements - make room
+    const shortfall = toStart.length - (this.freeCapacity() + toStop.length);
+    if (shortfall > 0) {
+      toStop.push(...staleKept.slice(0, shortfall));
+    }
+
+    if (toStop.length > 0) {
       // Have too many warm containers - stop the excess
-      const excess = -diff;
-      console.log(`Scaling down pool: stopping ${excess} excess warm containers`);
-      
-      const containersToStop = [...this.warmContainers].slice(0, excess);
-      const stoppedContainers: string[] = [];
+      console.log(`Scaling down pool: stopping ${toStop.length} excess warm containers`);
+
+      let stopped = 0;
+      for (const containerUUID of toStop) {
+        if (await this.stopContainer(containerUUID)) {
+          this.store.removeContainer(containerUUID);
+          stopped++;
+        }
+      }
+      this.emit('pool.scaled_down', { detail: { count: stopped } });
+      this.notifyWaiters();
+    }
+
+    if (toStart.length > 0) {
+      // Need more warm containers - start them without blocking the alarm
+      const count = Math.min(toStart.length, this.freeCapacity());
+      if (count <= 0) {
+        console.log(`Pool is at maxTotal, not starting ${toStart.length} more warm containers`);
+        return;
+      }
+      if (!this.startAllowed()) {
+        console.log(`Circuit is open, not starting ${count} more warm containers`);
+        return;
+      }
+      console.log(`Scaling up pool: need ${count} more warm containers`);
+      this.emit('pool.scaled_up', { detail: { count } });
+      this.replenish(toStart.slice(0, count)).catch((error) => {
+        console.error('Replenishment error:', error);
+      });
+    }
+  }
+
+  /**
+   * Start replacements in the background as soon as a profile has fewer warm
+   * containers than its target, instead of waiting for the next refresh
+   */
+  private topUp(profile: string): void {
+    if (this.mode !== 'active' || !this.startAllowed()) return;
 
-      for (const containerUUID of containersToStop) {
+    const now = Date.now();
+    const fresh = this.store.listWarm(profile).filter((container) => !this.needsReplacement(container, now)).length;
+    const pending = this.pendingWarmStarts.get(profile) ?? 0;
+    const count = Math.min(this.targetWarmCount(profile) - fresh - pending, this.freeCapacity());
+    if (count <= 0) return;
+
+    this.emit('pool.scaled_up', { profile, detail: { count } });
+    this.ctx.waitUntil(
+      this.replenish(Array.from({ length: count }, () => profile)).catch((error) => {
+        console.error('Replenishment error:', error);
+      })
+    );
+  }
+
+  /**
+   * Start one warm container per entry in `profiles`, at most `startConcurrency` at a time
+   */
+  private async replenish(profiles: string[]): Promise<void> {
+    const queue = [...profiles];
+    for (const profile of profiles) {
+      this.pendingWarmStarts.set(profile, (this.pendingWarmStarts.get(profile) ?? 0) + 1);
+    }
+
+    const worker = async () => {
+      for (let profile = queue.shift(); profile !== undefined; profile = queue.shift()) {
         try {
-          const stub = this.getContainerStub(containerUUID);
-          await (stub as unknown as ContainerRpc).stop();
-          stoppedContainers.push(containerUUID);
-        } catch (error) {
-          console.error(`Failed to stop container ${containerUUID}:`, error);
+          // Capacity may have been taken by cold starts since replenishment was scheduled
+          if (this.freeCapacity() <= 0 || this.mode !== 'active' || !this.startAllowed()) continue;
+
+          const version = this.config.version ?? null;
+          const containerUUID = await this.startContainer(profile);
+          if (containerUUID) {
+            this.trackContainer(containerUUID, profile, 'warm', version);
+            this.notifyWaiters();
+          }
+        } finally {
+          this.pendingWarmStarts.set(profile, (this.pendingWarmStarts.get(profile) ?? 1) - 1);
         }
       }
+    };
 
-      for (const containerUUID of stoppedContainers) {
-        this.warmContainers.delete(containerUUID);
+    const workers = Math.max(1, Math.min(this.config.startConcurrency, profiles.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+  }
+
+  /**
+   * Number of containers that can still be started before reaching maxTotal
+   */
+  private freeCapacity(): number {
+    if (this.config.maxTotal === undefined) return Infinity;
+    // Unsettled starts left over from a restart may be running, so they count too
+    const total = this.store.countContainers() + this.store.countStarting() + this.retryingStarts;
+    return this.config.maxTotal - total;
+  }
+
+  /**
+   * Wait in the queue until a container may be available
+   * @param front - Rejoin at the front of the queue (for callers that already waited their turn)
+   * @throws PoolExhaustedError if the deadline passes first
+   * @throws PoolDrainingError if the pool starts draining first
+   */
+  private waitForCapacity(deadline: number, timeout: number, front = false): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve: () => {
+          clearTimeout(waiter.timer);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(waiter.timer);
+          reject(error);
+        },
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          this.queueStats.timedOut++;
+          reject(new PoolExhaustedError(timeout));
+        }, Math.max(0, deadline - Date.now())),
+      };
+
+      if (front) {
+        this.waiters.unshift(waiter);
+      } else {
+        this.waiters.push(waiter);
       }
-      await this.persist();
+    });
+  }
+
+  private recordQueueWait(waited: number): void {
+    this.queueStats.served++;
+    this.queueStats.totalWait += waited;
+    this.queueStats.maxWait = Math.max(this.queueStats.maxWait, waited);
+  }
+
+  /**
+   * Wake queued callers, in order, for each warm container, free slot on a
+   * shared container, or room to start a container
+   */
+  private notifyWaiters(): void {
+    let available = this.store.countContainers('warm')
+      + this.sessionStats().freeSlots
+      + Math.max(0, this.freeCapacity());
+    while (available > 0 && this.waiters.length > 0) {
+      this.waiters.shift()!.resolve();
+      available--;
+    }
+  }
+
+  /**
+   * Fail every queued caller at once
+   */
+  private rejectWaiters(error: Error): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter.reject(error);
     }
   }
 
@@ -0,0 +1,117 @@
+import type { ScheduleWindow, WarmSchedule } from './types.js';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Local day of week (0 = Sunday) and minute of day in a timezone
+ */
+interface LocalTime {
+  day: number;
+  minute: number;
+}
+
+function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return NaN;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes !== 0)) return NaN;
+  return hours * 60 + minutes;
+}
+
+function localTime(now: number, timezone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(now));
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minute: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function windowLabel(window: ScheduleWindow, index: number): string {
+  return window.name ?? `window-${index}`;
+}
+
+/**
+ * Check a schedule for invalid times, days, dates and timezones
+ * @throws Error describing the first invalid entry
+ */
+export function validateSchedule(schedule: WarmSchedule): void {
+  if (schedule.timezone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+    } catch (_error) {
+      throw new Error(`Invalid schedule timezone '${schedule.timezone}'`);
+    }
+  }
+
+  schedule.windows.forEach((window, index) => {
+    const label = windowLabel(window, index);
+    for (const time of [window.start, window.end]) {
+      if (time !== undefined && Number.isNaN(parseTimeOfDay(time))) {
+        throw new Error(`Invalid time '${time}' in schedule window '${label}', expected HH:MM`);
+      }
+    }
+    if (window.days?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error(`Invalid days in schedule window '${label}', expected 0 (Sunday) to 6 (Saturday)`);
+    }
+    for (const date of [window.from, window.until]) {
+      if (date !== undefined && Number.isNaN(Date.parse(date))) {
+        throw new Error(`Invalid date '${date}' in schedule window '${label}'`);
+      }
+    }
+    if (!Number.isInteger(window.warmTarget) || window.warmTarget < 0) {
+      throw new Error(`Invalid warmTarget in schedule window '${label}'`);
+    }
+  });
+}
+
+/**
+ * Check whether a window covers the given time
+ *
+ * A window whose `end` is earlier than its `start` wraps past midnight. Its
+ * `days` refer to the day the window starts on.
+ */
+function windowMatches(window: ScheduleWindow, now: number, local: LocalTime): boolean {
+  if (window.from !== undefined && now < Date.parse(window.from)) return false;
+  if (window.until !== undefined && now >= Date.parse(window.until)) return false;
+
+  const start = window.start !== undefined ? parseTimeOfDay(window.start) : 0;
+  const end = window.end !== undefined ? parseTimeOfDay(window.end) : MINUTES_PER_DAY;
+  const onDay = (day: number) => !window.days || window.days.includes(day);
+
+  if (start <= end) {
+    return onDay(local.day) && local.minute >= start && local.minute < end;
+  }
+
+  const previousDay = (local.day + 6) % 7;
+  return (onDay(local.day) && local.minute >= start) || (onDay(previousDay) && local.minute < end);
+}
+
+/**
+ * Find the first schedule window active at `now`
+ * @returns The active window and its label, or null if no window matches
+ */
+export function activeScheduleWindow(
+  schedule: WarmSchedule,
+  now: number
+): { window: ScheduleWindow; label: string } | null {
+  const local = localTime(now, schedule.timezone ?? 'UTC');
+
+  for (const [index, window] of schedule.windows.entries()) {
+    if (windowMatches(window, now, local)) {
+      return { window, label: windowLabel(window, index) };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,264 @@
+import type {
+  CircuitBreakerStats,
+  CircuitState,
+  PoolConfigInternal,
+  PoolMode,
+  PoolStats,
+  ProfileStats,
+  StartError,
+  UsageStats,
+  VersionStats,
+} from './types.js';
+
+/**
+ * Identity of a WarmPool instance within a sharded pool
+ */
+export interface ShardInfo {
+  /** Zero-based shard index */
+  index: number;
+  /** Total number of shards */
+  count: number;
+}
+
+const CONTAINER_PREFIX = /^shard(\d+)-/;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Durable Object name of a shard. A single shard keeps the plain pool name so
+ * unsharded pools keep their existing state.
+ */
+export function shardName(poolName: string, shard: ShardInfo): string {
+  return shard.count <= 1 ? poolName : `${poolName}:shard${shard.index}`;
+}
+
+/**
+ * Pick the shard that owns a session ID
+ *
+ * Uses rendezvous (highest random weight) hashing: changing the shard count only
+ * moves the IDs that land on added or removed shards.
+ */
+export function shardForKey(key: string, count: number): number {
+  let best = 0;
+  let bestWeight = -1;
+  for (let index = 0; index < count; index++) {
+    const weight = fnv1a(`${index}:${key}`);
+    if (weight > bestWeight) {
+      best = index;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+/**
+ * Name for a new container started by a shard. The shard index is encoded in
+ * the name so stop reports can be routed back to the owning shard.
+ */
+export function shardContainerName(shard: ShardInfo | null, uuid: string): string {
+  return shard && shard.count > 1 ? `shard${shard.index}-${uuid}` : uuid;
+}
+
+/**
+ * Shard that started a container, if its name encodes one
+ */
+export function shardForContainer(containerName: string): number | null {
+  const match = CONTAINER_PREFIX.exec(containerName);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Split a pool-wide count so that the shares across all shards add up to it
+ */
+export function splitCount(value: number, shard: ShardInfo): number {
+  const base = Math.floor(value / shard.count);
+  return base + (shard.index < value % shard.count ? 1 : 0);
+}
+
+/**
+ * Give a shard its share of the pool-wide warm targets and limits
+ */
+export function shardConfig(config: PoolConfigInternal, shard: ShardInfo): PoolConfigInternal {
+  if (shard.count <= 1) return config;
+
+  // Only set keys that are present, so unset options don't override defaults
+  const result: PoolConfigInternal = { ...config };
+  if (config.warmTarget !== undefined) {
+    result.warmTarget = splitCount(config.warmTarget, shard);
+  }
+  if (config.maxTotal !== undefined) {
+    result.maxTotal = splitCount(config.maxTotal, shard);
+  }
+  if (config.maxIdleContainerSecondsPerHour !== undefined) {
+    result.maxIdleContainerSecondsPerHour = splitCount(config.maxIdleContainerSecondsPerHour, shard);
+  }
+  if (config.autoscale) {
+    result.autoscale = {
+      ...config.autoscale,
+      minWarm: splitCount(config.autoscale.minWarm, shard),
+      maxWarm: splitCount(config.autoscale.maxWarm, shard),
+    };
+  }
+  if (config.schedule) {
+    result.schedule = {
+      ...config.schedule,
+      windows: config.schedule.windows.map((window) => ({
+        ...window,
+        warmTarget: splitCount(window.warmTarget, shard),
+      })),
+    };
+  }
+  if (config.profiles) {
+    result.profiles = Object.fromEntries(
+      Object.entries(config.profiles).map(([name, profile]) => [
+        name,
+        profile.warmTarget === undefined ? profile : { ...profile, warmTarget: splitCount(profile.warmTarget, shard) },
+      ])
+    );
+  }
+  return result;
+}
+
+function latestError(errors: (StartError | null)[]): StartError | null {
+  return errors.reduce<StartError | null>(
+    (latest, error) => (error && (!latest || error.at > latest.at) ? error : latest),
+    null
+  );
+}
+
+/**
+ * Report the most restrictive mode of any shard, so a partly applied mode change shows
+ */
+function mergeMode(modes: PoolMode[]): PoolMode {
+  if (modes.includes('draining')) return 'draining';
+  if (modes.includes('paused')) return 'paused';
+  return 'active';
+}
+
+const CIRCUIT_SEVERITY: CircuitState[] = ['closed', 'half-open', 'open'];
+
+/**
+ * Report the breaker of the shard refusing starts the most, with the highest
+ * failure count and latest error of any shard
+ */
+function mergeCircuitBreakers(breakers: CircuitBreakerStats[]): CircuitBreakerStats {
+  const worst = breakers.reduce((a, b) => (CIRCUIT_SEVERITY.indexOf(b.state) > CIRCUIT_SEVERITY.indexOf(a.state) ? b : a));
+  return {
+    ...worst,
+    consecutiveFailures: Math.max(...breakers.map((breaker) => breaker.consecutiveFailures)),
+    lastError: latestError(breakers.map((breaker) => breaker.lastError)),
+  };
+}
+
+/**
+ * Add up container time, spend and idle budgets across shards
+ */
+function mergeUsage(usage: UsageStats[]): UsageStats {
+  const sum = (pick: (stats: UsageStats) => number) => usage.reduce((total, stats) => total + pick(stats), 0);
+  const costs = usage.map((stats) => stats.estimatedCost).filter((cost) => cost !== null);
+  const budgets = usage.map((stats) => stats.idleBudget).filter((budget) => budget !== null);
+
+  return {
+    warmSeconds: sum((s) => s.warmSeconds),
+    assignedSeconds: sum((s) => s.assignedSeconds),
+    estimatedCost: costs.length === 0 ? null : {
+      warm: costs.reduce((total, cost) => total + cost.warm, 0),
+      assigned: costs.reduce((total, cost) => total + cost.assigned, 0),
+      total: costs.reduce((total, cost) => total + cost.total, 0),
+    },
+    idleBudget: budgets.length === 0 ? null : {
+      limit: budgets.reduce((total, budget) => total + budget.limit, 0),
+      idleSecondsLastHour: budgets.reduce((total, budget) => total + budget.idleSecondsLastHour, 0),
+      exceeded: budgets.some((budget) => budget.exceeded),
+      warmTargetReduction: budgets.reduce((total, budget) => total + budget.warmTargetReduction, 0),
+    },
+  };
+}
+
+/**
+ * Combine stats from every shard into pool-wide stats
+ */
+export function mergeStats(shards: PoolStats[], config: PoolConfigInternal): PoolStats {
+  const sum = (pick: (stats: PoolStats) => number) => shards.reduce((total, stats) => total + pick(stats), 0);
+
+  const served = sum((s) => s.queue.served);
+  const profiles: Record<string, ProfileStats> = {};
+  for (const stats of shards) {
+    for (const [name, profile] of Object.entries(stats.profiles)) {
+      const entry = profiles[name] ??= { warm: 0, assigned: 0, warmTarget: 0, coldStarts: 0 };
+      entry.warm += profile.warm;
+      entry.assigned += profile.assigned;
+      entry.warmTarget += profile.warmTarget;
+      entry.coldStarts += profile.coldStarts;
+    }
+  }
+
+  const versions: Record<string, VersionStats> = {};
+  for (const stats of shards) {
+    for (const [version, counts] of Object.entries(stats.versions)) {
+      const entry = versions[version] ??= { warm: 0, assigned: 0 };
+      entry.warm += counts.warm;
+      entry.assigned += counts.assigned;
+    }
+  }
+
+  const occupancy: Record<number, number> = {};
+  for (const stats of shards) {
+    for (const [sessions, containers] of Object.entries(stats.sessions.occupancy)) {
+      occupancy[Number(sessions)] = (occupancy[Number(sessions)] ?? 0) + containers;
+    }
+  }
+
+  return {
+    warm: sum((s) => s.warm),
+    assigned: sum((s) => s.assigned),
+    total: sum((s) => s.total),
+    starting: sum((s) => s.starting),
+    startup: {
+      started: sum((s) => s.startup.started),
+      failed: sum((s) => s.startup.failed),
+      timedOut: sum((s) => s.startup.timedOut),
+      lastError: latestError(shards.map((s) => s.startup.lastError)),
+    },
+    circuitBreaker: mergeCircuitBreakers(shards.map((s) => s.circuitBreaker)),
+    usage: mergeUsage(shards.map((s) => s.usage)),
+    sessions: {
+      assigned: sum((s) => s.sessions.assigned),
+      freeSlots: sum((s) => s.sessions.freeSlots),
+      occupancy,
+    },
+    reserved: sum((s) => s.reserved),
+    prewarm: sum((s) => s.prewarm),
+    queue: {
+      depth: sum((s) => s.queue.depth),
+      served,
+      timedOut: sum((s) => s.queue.timedOut),
+      averageWait: served > 0 ? Math.round(sum((s) => s.queue.averageWait * s.queue.served) / served) : 0,
+      maxWait: Math.max(0, ...shards.map((s) => s.queue.maxWait)),
+    },
+    warmTarget: sum((s) => s.warmTarget),
+    scheduleWindow: shards[0]?.scheduleWindow ?? null,
+    demand: {
+      demandRate: sum((s) => s.demand.demandRate),
+      coldStartRate: sum((s) => s.demand.coldStartRate),
+      startupLatency: shards.length > 0 ? sum((s) => s.demand.startupLatency) / shards.length : 0,
+    },
+    profiles,
+    versions,
+    mode: mergeMode(shards.map((s) => s.mode)),
+    // Report the pool-wide config rather than any one shard's share
+    config: { ...shards[0].config, ...config, ...shards[0].configOverrides },
+    configOverrides: shards[0].configOverrides,
+    shards,
+  };
+}
@@ -0,0 +1,650 @@
+/**
+ * SQLite-backed storage for pool state
+ *
+ * Containers and assignments live in their own tables and are updated one row at
+ * a time, so pool operations stay cheap no matter how many sessions are tracked.
+ */
+
+import type { AssignmentInfo } from './types.js';
+
+/** Status of a tracked container */
+export type ContainerStatus = 'warm' | 'assigned';
+
+/**
+ * A tracked container
+ */
+export interface ContainerRow {
+  uuid: string;
+  /** Durable Object ID of the container (hex), as seen by `ctx.id.toString()` */
+  doId: string;
+  status: ContainerStatus;
+  profile: string;
+  /** Config `version` the container was started with, or null if none was set */
+  version: string | null;
+  /** When the container was started (ms since epoch) */
+  createdAt: number;
+  /** When the container last changed status (ms since epoch) */
+  updatedAt: number;
+  /** Number of user IDs assigned to the container */
+  sessions: number;
+}
+
+/**
+ * A container start in progress, recorded before the start begins so a start
+ * interrupted by a restart can be reconciled
+ */
+export interface StartingRow {
+  uuid: string;
+  profile: string;
+  /** Config `version` the container is started with */
+  version: string | null;
+  /** When the start began (ms since epoch) */
+  startedAt: number;
+}
+
+/**
+ * Schema migrations, applied in order. Never edit an entry once released -
+ * append a new one instead.
+ */
+const MIGRATIONS: string[][] = [
+  [
+    `CREATE TABLE containers (
+      uuid TEXT PRIMARY KEY,
+      do_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      profile TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`,
+    `CREATE INDEX containers_do_id ON containers (do_id)`,
+    `CREATE INDEX containers_status ON containers (status, profile, updated_at)`,
+    `CREATE TABLE assignments (
+      user_id TEXT PRIMARY KEY,
+      container_uuid TEXT NOT NULL,
+      assigned_at INTEGER NOT NULL
+    )`,
+    `CREATE INDEX assignments_container ON assignments (container_uuid)`,
+  ],
+  [
+    `ALTER TABLE assignments ADD COLUMN lease_ms INTEGER`,
+    `ALTER TABLE assignments ADD COLUMN lease_expires_at INTEGER`,
+    `CREATE INDEX assignments_lease ON assignments (lease_expires_at)`,
+  ],
+  [
+    `ALTER TABLE containers ADD COLUMN version TEXT`,
+  ],
+  [
+    `ALTER TABLE containers ADD COLUMN health_failures INTEGER NOT NULL DEFAULT 0`,
+  ],
+  [
+    `ALTER TABLE containers ADD COLUMN accrued_at INTEGER`,
+    `CREATE TABLE usage (
+      profile TEXT NOT NULL,
+      status TEXT NOT NULL,
+      ms INTEGER NOT NULL,
+      PRIMARY KEY (profile, status)
+    )`,
+    `CREATE TABLE session_usage (
+      user_id TEXT PRIMARY KEY,
+      profile TEXT NOT NULL,
+      ms INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`,
+    `CREATE INDEX session_usage_updated ON session_usage (updated_at)`,
+  ],
+  [
+    `ALTER TABLE containers ADD COLUMN sessions INTEGER NOT NULL DEFAULT 0`,
+    `UPDATE containers SET sessions = (SELECT COUNT(*) FROM assignments WHERE container_uuid = containers.uuid)`,
+    `CREATE INDEX containers_sessions ON containers (status, profile, sessions)`,
+  ],
+  [
+    `ALTER TABLE assignments ADD COLUMN reserved_until INTEGER`,
+    `CREATE INDEX assignments_reserved ON assignments (reserved_until)`,
+  ],
+  [
+    `CREATE TABLE starting (
+      uuid TEXT PRIMARY KEY,
+      profile TEXT NOT NULL,
+      version TEXT,
+      started_at INTEGER NOT NULL
+    )`,
+  ],
+];
+
+type RawContainerRow = {
+  uuid: string;
+  do_id: string;
+  status: string;
+  profile: string;
+  version: string | null;
+  created_at: number;
+  updated_at: number;
+  sessions: number;
+};
+
+type RawAssignmentRow = {
+  user_id: string;
+  container_uuid: string;
+  profile: string | null;
+  version: string | null;
+  assigned_at: number;
+  lease_expires_at: number | null;
+  reserved_until: number | null;
+};
+
+const SELECT_ASSIGNMENTS = `
+  SELECT a.user_id, a.container_uuid, c.profile, c.version, a.assigned_at, a.lease_expires_at, a.reserved_until
+  FROM assignments a LEFT JOIN containers c ON c.uuid = a.container_uuid`;
+
+/**
+ * Time containers of a profile spent in a status
+ */
+export interface UsageRow {
+  profile: string;
+  status: ContainerStatus;
+  ms: number;
+}
+
+/**
+ * An assignment as stored. The pool adds `outdated`, which depends on its
+ * config, and the container's current `state`.
+ */
+export type AssignmentRow = Omit<AssignmentInfo, 'outdated' | 'state'>;
+
+function toAssignmentRow(row: RawAssignmentRow): AssignmentRow {
+  return {
+    userID: row.user_id,
+    containerUUID: row.container_uuid,
+    profile: row.profile ?? '',
+    version: row.version,
+    assignedAt: row.assigned_at,
+    leaseExpiresAt: row.lease_expires_at,
+    reservedUntil: row.reserved_until,
+  };
+}
+
+function toContainerRow(row: RawContainerRow): ContainerRow {
+  return {
+    uuid: row.uuid,
+    doId: row.do_id,
+    status: row.status as ContainerStatus,
+    profile: row.profile,
+    version: row.version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    sessions: row.sessions,
+  };
+}
+
+export class PoolStore {
+  constructor(private storage: DurableObjectStorage) {}
+
+  private get sql(): SqlStorage {
+    return this.storage.sql;
+  }
+
+  /**
+   * Create or upgrade the schema to the latest version
+   */
+  migrate(): void {
+    this.sql.exec('CREATE TABLE IF NOT EXISTS pool_meta (key TEXT PRIMARY KEY, value INTEGER NOT NULL)');
+    const current = this.sql
+      .exec<{ value: number }>(`SELECT value FROM pool_meta WHERE key = 'schema_version'`)
+      .toArray()[0]?.value ?? 0;
+
+    if (current >= MIGRATIONS.length) return;
+
+    this.storage.transactionSync(() => {
+      for (const statements of MIGRATIONS.slice(current)) {
+        for (const statement of statements) {
+          this.sql.exec(statement);
+        }
+      }
+      this.sql.exec(
+        `INSERT OR REPLACE INTO pool_meta (key, value) VALUES ('schema_version', ?)`,
+        MIGRATIONS.length
+      );
+    });
+  }
+
+  transaction<T>(closure: () => T): T {
+    return this.storage.transactionSync(closure);
+  }
+
+  // ===========================
+  // Containers
+  // ===========================
+
+  getContainer(uuid: string): ContainerRow | null {
+    const row = this.sql
+      .exec<RawContainerRow>('SELECT * FROM containers WHERE uuid = ?', uuid)
+      .toArray()[0];
+    return row ? toContainerRow(row) : null;
+  }
+
+  /**
+   * Find a container by its UUID or its Durable Object ID
+   */
+  findContainer(uuidOrDoId: string): ContainerRow | null {
+    const row = this.sql
+      .exec<RawContainerRow>(
+        'SELECT * FROM containers WHERE uuid = ? UNION ALL SELECT * FROM containers WHERE do_id = ? LIMIT 1',
+        uuidOrDoId,
+        uuidOrDoId
+      )
+      .toArray()[0];
+    return row ? toContainerRow(row) : null;
+  }
+
+  addContainer(container: Omit<ContainerRow, 'updatedAt' | 'sessions'>): void {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO containers (uuid, do_id, status, profile, version, created_at, updated_at, accrued_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      container.uuid,
+      container.doId,
+      container.status,
+      container.profile,
+      container.version,
+      container.createdAt,
+      container.createdAt,
+      container.createdAt
+    );
+  }
+
+  setStatus(uuid: string, status: ContainerStatus, now: number): void {
+    this.transaction(() => {
+      this.accrueUsage(now, uuid);
+      this.sql.exec('UPDATE containers SET status = ?, updated_at = ? WHERE uuid = ?', status, now, uuid);
+    });
+  }
+
+  /**
+   * Count a failed health check
+   * @returns Number of consecutive failed checks, or 0 if the container isn't tracked
+   */
+  recordHealthFailure(uuid: string): number {
+    const row = this.sql
+      .exec<{ health_failures: number }>(
+        'UPDATE containers SET health_failures = health_failures + 1 WHERE uuid = ? RETURNING health_failures',
+        uuid
+      )
+      .toArray()[0];
+    return row?.health_failures ?? 0;
+  }
+
+  /**
+   * Reset the failed health check count after a successful check
+   */
+  clearHealthFailures(uuid: string): void {
+    this.sql.exec('UPDATE containers SET health_failures = 0 WHERE uuid = ? AND health_failures > 0', uuid);
+  }
+
+  /**
+   * Delete a container and any assignment pointing at it
+   * @returns true if the container was tracked
+   */
+  removeContainer(uuid: string, now = Date.now()): boolean {
+    return this.transaction(() => {
+      this.accrueUsage(now, uuid);
+      this.sql.exec('DELETE FROM assignments WHERE container_uuid = ?', uuid);
+      return this.sql.exec('DELETE FROM containers WHERE uuid = ?', uuid).rowsWritten > 0;
+    });
+  }
+
+  /**
+   * Warm containers, longest-waiting first
+   * @param version - Only return containers started with this version (null for unversioned)
+   */
+  listWarm(profile?: string, limit = -1, version?: string | null): ContainerRow[] {
+    const conditions = [`status = 'warm'`];
+    const bindings: unknown[] = [];
+    if (profile !== undefined) {
+      conditions.push('profile = ?');
+      bindings.push(profile);
+    }
+    if (version !== undefined) {
+      conditions.push('version IS ?');
+      bindings.push(version);
+    }
+
+    return this.sql
+      .exec<RawContainerRow>(
+        `SELECT * FROM containers WHERE ${conditions.join(' AND ')} ORDER BY updated_at LIMIT ?`,
+        ...bindings,
+        limit
+      )
+      .toArray()
+      .map(toContainerRow);
+  }
+
+  /**
+   * The assigned container of a profile holding the fewest user IDs, as long
+   * as it holds fewer than `limit`. Ties go to the oldest container. Containers
+   * whose last ID was released are being stopped or reset, and take no new IDs.
+   * @param version - Only consider containers started with this version
+   * @param startedAfter - Only consider containers started after this time
+   */
+  findSharedContainer(profile: string, limit: number, version: string | null, startedAfter: number): string | null {
+    const row = this.sql
+      .exec<{ uuid: string }>(
+        `SELECT uuid FROM containers
+         WHERE status = 'assigned' AND profile = ? AND sessions > 0 AND sessions < ? AND version IS ? AND created_at > ?
+         ORDER BY sessions, created_at LIMIT 1`,
+        profile,
+        limit,
+        version,
+        startedAfter
+      )
+      .toArray()[0];
+    return row?.uuid ?? null;
+  }
+
+  listContainers(): ContainerRow[] {
+    return this.sql.exec<RawContainerRow>('SELECT * FROM containers').toArray().map(toContainerRow);
+  }
+
+  countContainers(status?: ContainerStatus): number {
+    const cursor = status === undefined
+      ? this.sql.exec<{ n: number }>('SELECT COUNT(*) AS n FROM containers')
+      : this.sql.exec<{ n: number }>('SELECT COUNT(*) AS n FROM containers WHERE status = ?', status);
+    return cursor.one().n;
+  }
+
+  /**
+   * Container counts grouped by version and status
+   */
+  countByVersion(): { version: string | null; status: ContainerStatus; n: number }[] {
+    return this.sql
+      .exec<{ version: string | null; status: string; n: number }>(
+        'SELECT version, status, COUNT(*) AS n FROM containers GROUP BY version, status'
+      )
+      .toArray()
+      .map((row) => ({ ...row, status: row.status as ContainerStatus }));
+  }
+
+  /**
+   * Assigned container counts grouped by the number of user IDs they hold,
+   * leaving out containers being released
+   */
+  countBySessions(): { sessions: number; n: number }[] {
+    return this.sql
+      .exec<{ sessions: number; n: number }>(
+        `SELECT sessions, COUNT(*) AS n FROM containers WHERE status = 'assigned' AND sessions > 0 GROUP BY sessions`
+      )
+      .toArray();
+  }
+
+  /**
+   * Container counts grouped by profile and status
+   */
+  countByProfile(): { profile: string; status: ContainerStatus; n: number }[] {
+    return this.sql
+      .exec<{ profile: string; status: string; n: number }>(
+        'SELECT profile, status, COUNT(*) AS n FROM containers GROUP BY profile, status'
+      )
+      .toArray()
+      .map((row) => ({ ...row, status: row.status as ContainerStatus }));
+  }
+
+  // ===========================
+  // Starts in progress
+  // ===========================
+
+  addStarting(start: StartingRow): void {
+    this.sql.exec(
+      'INSERT OR REPLACE INTO starting (uuid, profile, version, started_at) VALUES (?, ?, ?, ?)',
+      start.uuid,
+      start.profile,
+      start.version,
+      start.startedAt
+    );
+  }
+
+  removeStarting(uuid: string): void {
+    this.sql.exec('DELETE FROM starting WHERE uuid = ?', uuid);
+  }
+
+  hasStarting(uuid: string): boolean {
+    return this.sql.exec<{ n: number }>('SELECT COUNT(*) AS n FROM starting WHERE uuid = ?', uuid).one().n > 0;
+  }
+
+  listStarting(): StartingRow[] {
+    return this.sql
+      .exec<{ uuid: string; profile: string; version: string | null; started_at: number }>(
+        'SELECT * FROM starting ORDER BY started_at'
+      )
+      .toArray()
+      .map((row) => ({ uuid: row.uuid, profile: row.profile, version: row.version, startedAt: row.started_at }));
+  }
+
+  countStarting(): number {
+    return this.sql.exec<{ n: number }>('SELECT COUNT(*) AS n FROM starting').one().n;
+  }
+
+  // ===========================
+  // Assignments
+  // ===========================
+
+  getAssignment(userID: string): string | null {
+    const row = this.sql
+      .exec<{ container_uuid: string }>('SELECT container_uuid FROM assignments WHERE user_id = ?', userID)
+      .toArray()[0];
+    return row?.container_uuid ?? null;
+  }
+
+  /**
+   * Full details of a user ID's assignment
+   */
+  describeAssignment(userID: string): AssignmentRow | null {
+    const row = this.sql
+      .exec<RawAssignmentRow>(`${SELECT_ASSIGNMENTS} WHERE a.user_id = ?`, userID)
+      .toArray()[0];
+    return row ? toAssignmentRow(row) : null;
+  }
+
+  /**
+   * Full details of the assignments holding a container, ordered by user ID
+   */
+  describeContainerAssignments(containerUUID: string): AssignmentRow[] {
+    return this.sql
+      .exec<RawAssignmentRow>(`${SELECT_ASSIGNMENTS} WHERE a.container_uuid = ? ORDER BY a.user_id`, containerUUID)
+      .toArray()
+      .map(toAssignmentRow);
+  }
+
+  /**
+   * Assignments ordered by user ID, starting after `after`
+   */
+  listAssignments(limit: number, after?: string): AssignmentRow[] {
+    const rows = after === undefined
+      ? this.sql.exec<RawAssignmentRow>(`${SELECT_ASSIGNMENTS} ORDER BY a.user_id LIMIT ?`, limit)
+      : this.sql.exec<RawAssignmentRow>(
+          `${SELECT_ASSIGNMENTS} WHERE a.user_id > ? ORDER BY a.user_id LIMIT ?`,
+          after,
+          limit
+        );
+    return rows.toArray().map(toAssignmentRow);
+  }
+
+  /**
+   * Assign a container to a user ID and mark it as assigned. The container can
+   * already be assigned to other IDs.
+   */
+  assign(userID: string, uuid: string, now: number): void {
+    this.transaction(() => {
+      // Account the time so far before the new ID starts sharing it
+      this.setStatus(uuid, 'assigned', now);
+      const previous = this.getAssignment(userID);
+      if (previous) {
+        this.sql.exec('UPDATE containers SET sessions = sessions - 1 WHERE uuid = ?', previous);
+      }
+      this.sql.exec(
+        'INSERT OR REPLACE INTO assignments (user_id, container_uuid, assigned_at) VALUES (?, ?, ?)',
+        userID,
+        uuid,
+        now
+      );
+      this.sql.exec('UPDATE containers SET sessions = sessions + 1 WHERE uuid = ?', uuid);
+    });
+  }
+
+  /**
+   * Set the lease on an assignment
+   * @param leaseMs - Lease duration, or null to remove the lease
+   */
+  setLease(userID: string, leaseMs: number | null, now: number): void {
+    this.sql.exec(
+      'UPDATE assignments SET lease_ms = ?, lease_expires_at = ? WHERE user_id = ?',
+      leaseMs,
+      leaseMs === null ? null : now + leaseMs,
+      userID
+    );
+  }
+
+  /**
+   * Extend a leased assignment by its lease duration (or a new one)
+   * @returns The new expiry, or null if the ID has no leased assignment
+   */
+  renewLease(userID: string, now: number, leaseMs?: number): number | null {
+    const row = this.sql
+      .exec<{ lease_ms: number | null }>('SELECT lease_ms FROM assignments WHERE user_id = ?', userID)
+      .toArray()[0];
+    const duration = leaseMs ?? row?.lease_ms;
+    if (!row || duration === null || duration === undefined) return null;
+
+    this.setLease(userID, duration, now);
+    return now + duration;
+  }
+
+  /**
+   * User IDs whose lease expired at or before `now`
+   */
+  listExpiredLeases(now: number): string[] {
+    return this.sql
+      .exec<{ user_id: string }>(
+        'SELECT user_id FROM assignments WHERE lease_expires_at IS NOT NULL AND lease_expires_at <= ?',
+        now
+      )
+      .toArray()
+      .map((row) => row.user_id);
+  }
+
+  /**
+   * Mark an assignment as reserved until the ID claims it or `until` passes
+   */
+  setReservation(userID: string, until: number): void {
+    this.sql.exec('UPDATE assignments SET reserved_until = ? WHERE user_id = ?', until, userID);
+  }
+
+  /**
+   * Mark a reserved assignment as claimed by its ID
+   */
+  claimReservation(userID: string): void {
+    this.sql.exec(
+      'UPDATE assignments SET reserved_until = NULL WHERE user_id = ? AND reserved_until IS NOT NULL',
+      userID
+    );
+  }
+
+  /**
+   * User IDs whose reservation expired before they claimed it
+   */
+  listExpiredReservations(now: number): string[] {
+    return this.sql
+      .exec<{ user_id: string }>(
+        'SELECT user_id FROM assignments WHERE reserved_until IS NOT NULL AND reserved_until <= ?',
+        now
+      )
+      .toArray()
+      .map((row) => row.user_id);
+  }
+
+  countReservations(): number {
+    return this.sql
+      .exec<{ n: number }>('SELECT COUNT(*) AS n FROM assignments WHERE reserved_until IS NOT NULL')
+      .one().n;
+  }
+
+  /**
+   * Remove a user ID's assignment
+   * @returns The container UUID that was assigned, or null if there was none
+   */
+  unassign(userID: string, now = Date.now()): string | null {
+    return this.transaction(() => {
+      const uuid = this.getAssignment(userID);
+      if (uuid) {
+        // Credit the session with its time before the assignment goes away
+        this.accrueUsage(now, uuid);
+        this.sql.exec('DELETE FROM assignments WHERE user_id = ?', userID);
+        this.sql.exec('UPDATE containers SET sessions = sessions - 1 WHERE uuid = ?', uuid);
+      }
+      return uuid;
+    });
+  }
+
+  // ===========================
+  // Usage
+  // ===========================
+
+  /**
+   * Add the time containers spent in their current status since they were
+   * last accounted to the usage totals, and time spent assigned to the
+   * sessions holding the container, split evenly between them
+   * @param uuid - Only account this container (before it changes status)
+   */
+  accrueUsage(now: number, uuid?: string): void {
+    const filter = uuid === undefined ? '' : 'AND uuid = ?';
+    const bindings = uuid === undefined ? [] : [uuid];
+
+    this.transaction(() => {
+      this.sql.exec(
+        `INSERT INTO session_usage (user_id, profile, ms, updated_at)
+         SELECT a.user_id, c.profile, (? - COALESCE(c.accrued_at, c.updated_at)) / MAX(c.sessions, 1), ?
+         FROM assignments a JOIN containers c ON c.uuid = a.container_uuid
+         WHERE c.status = 'assigned' ${filter}
+         ON CONFLICT (user_id) DO UPDATE
+         SET profile = excluded.profile, ms = ms + excluded.ms, updated_at = excluded.updated_at`,
+        now,
+        now,
+        ...bindings
+      );
+      this.sql.exec(
+        `INSERT INTO usage (profile, status, ms)
+         SELECT profile, status, SUM(? - COALESCE(accrued_at, updated_at))
+         FROM containers
+         WHERE true ${filter}
+         GROUP BY profile, status
+         ON CONFLICT (profile, status) DO UPDATE SET ms = ms + excluded.ms`,
+        now,
+        ...bindings
+      );
+      this.sql.exec(`UPDATE containers SET accrued_at = ? WHERE true ${filter}`, now, ...bindings);
+    });
+  }
+
+  /**
+   * Time accounted per profile and status (ms)
+   */
+  listUsage(): UsageRow[] {
+    return this.sql
+      .exec<{ profile: string; status: string; ms: number }>('SELECT profile, status, ms FROM usage')
+      .toArray()
+      .map((row) => ({ ...row, status: row.status as ContainerStatus }));
+  }
+
+  /**
+   * Time a session has held containers (ms), or null if it never held one
+   */
+  getSessionUsage(userID: string): { profile: string; ms: number } | null {
+    return this.sql
+      .exec<{ profile: string; ms: number }>('SELECT profile, ms FROM session_usage WHERE user_id = ?', userID)
+      .toArray()[0] ?? null;
+  }
+
+  /**
+   * Forget the usage of sessions that haven't held a container since `before`
+   */
+  pruneSessionUsage(before: number): void {
+    this.sql.exec('DELETE FROM session_usage WHERE updated_at < ?', before);
+  }
+}
@@ -0,0 +1,193 @@
+import type { ContainerStartOptions } from '../types.js';
+import { FakeDurableObjectId } from './storage.js';
+
+/** Container status as reported by `getState()` */
+export type FakeContainerStatus = 'running' | 'stopping' | 'stopped' | 'healthy' | 'stopped_with_code';
+
+/**
+ * Scripted behavior of fake containers
+ */
+export interface FakeContainerBehavior {
+  /**
+   * How long `startAndWaitForPorts()` takes (ms)
+   * @default 0
+   */
+  startDelay?: number;
+
+  /** Make `startAndWaitForPorts()` fail with this error */
+  startError?: Error | string;
+
+  /** Make `getState()` fail with this error */
+  stateError?: Error | string;
+
+  /** Handle `fetch()` calls. Responds 200 'ok' by default. */
+  fetch?: (request: Request, container: FakeContainer) => Response | Promise<Response>;
+}
+
+function toError(error: Error | string): Error {
+  return typeof error === 'string' ? new Error(error) : error;
+}
+
+/**
+ * A fake container stub with the methods the pool calls over RPC
+ *
+ * Every field of `FakeContainerBehavior` can be changed on a container at any
+ * time, and `status` can be set directly to simulate a crash.
+ */
+export class FakeContainer {
+  readonly name: string;
+  readonly id: FakeDurableObjectId;
+
+  status: FakeContainerStatus = 'stopped';
+  startDelay?: number;
+  startError?: Error | string;
+  stateError?: Error | string;
+  fetch: (request: Request) => Promise<Response>;
+
+  /** Number of `startAndWaitForPorts()` calls */
+  starts = 0;
+  /** Number of `stop()` calls */
+  stops = 0;
+  /** Number of `renewActivityTimeout()` calls */
+  activityRenewals = 0;
+  /** Start options passed to the last `startAndWaitForPorts()` call */
+  startOptions?: ContainerStartOptions;
+  /** Requests passed to `fetch()` */
+  readonly requests: Request[] = [];
+
+  constructor(name: string, behavior: FakeContainerBehavior, private namespace: FakeContainerNamespace) {
+    this.name = name;
+    this.id = new FakeDurableObjectId(name);
+    this.startDelay = behavior.startDelay;
+    this.startError = behavior.startError;
+    this.stateError = behavior.stateError;
+
+    const handler = behavior.fetch ?? (() => new Response('ok'));
+    this.fetch = async (request: Request) => {
+      this.requests.push(request);
+      return handler(request, this);
+    };
+  }
+
+  async startAndWaitForPorts(args?: { startOptions?: ContainerStartOptions }): Promise<void> {
+    this.starts++;
+    this.startOptions = args?.startOptions;
+
+    const start = (async () => {
+      if (this.startDelay) {
+        await new Promise((resolve) => setTimeout(resolve, this.startDelay));
+      }
+      if (this.startError) {
+        this.status = 'stopped';
+        throw toError(this.startError);
+      }
+      this.status = 'running';
+    })();
+
+    return this.namespace.track(start);
+  }
+
+  async stop(): Promise<void> {
+    this.stops++;
+    this.status = 'stopped';
+  }
+
+  renewActivityTimeout(): void {
+    this.activityRenewals++;
+  }
+
+  async getState(): Promise<{ status: FakeContainerStatus; lastChange: number }> {
+    if (this.stateError) {
+      throw toError(this.stateError);
+    }
+    return { status: this.status, lastChange: Date.now() };
+  }
+
+  get running(): boolean {
+    return this.status === 'running' || this.status === 'healthy';
+  }
+}
+
+/**
+ * Fake container Durable Object namespace
+ *
+ * Creates a `FakeContainer` for each name on first use. New containers copy
+ * `behavior`, so changing it scripts every container started afterwards.
+ *
+ * @example
+ * ```ts
+ * const containers = new FakeContainerNamespace({ startDelay: 50 });
+ * containers.behavior.startError = 'quota exceeded';  // later starts fail
+ * containers.get(containers.idFromName(uuid)).status = 'stopped';  // simulate a crash
+ * ```
+ */
+export class FakeContainerNamespace {
+  /** Behavior copied to containers created from now on */
+  behavior: FakeContainerBehavior;
+
+  private containers = new Map<string, FakeContainer>();
+  private pending = new Set<Promise<unknown>>();
+
+  constructor(behavior: FakeContainerBehavior = {}) {
+    this.behavior = { ...behavior };
+  }
+
+  idFromName(name: string): FakeDurableObjectId {
+    return new FakeDurableObjectId(name);
+  }
+
+  get(id: DurableObjectId): FakeContainer {
+    const name = id.name ?? id.toString();
+    let container = this.containers.get(name);
+    if (!container) {
+      container = new FakeContainer(name, this.behavior, this);
+      this.containers.set(name, container);
+    }
+    return container;
+  }
+
+  /**
+   * Look up a container by name without creating it
+   */
+  container(name: string): FakeContainer | undefined {
+    return this.containers.get(name);
+  }
+
+  /**
+   * Every container created so far
+   */
+  all(): FakeContainer[] {
+    return [...this.containers.values()];
+  }
+
+  /**
+   * Containers that are currently running
+   */
+  running(): FakeContainer[] {
+    return this.all().filter((container) => container.running);
+  }
+
+  /**
+   * Wait for every start in progress to finish
+   * @returns true if any start was in progress
+   */
+  async settle(): Promise<boolean> {
+    if (this.pending.size === 0) return false;
+    await Promise.allSettled([...this.pending]);
+    return true;
+  }
+
+  /**
+   * This namespace typed as a Durable Object namespace binding
+   */
+  asBinding(): DurableObjectNamespace {
+    return this as unknown as DurableObjectNamespace;
+  }
+
+  /** @internal */
+  track<T>(promise: Promise<T>): Promise<T> {
+    this.pending.add(promise);
+    promise.finally(() => this.pending.delete(promise)).catch(() => {});
+    return promise;
+  }
+}
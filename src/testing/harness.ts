@@ -0,0 +1,104 @@
+import { createWarmPool, type WarmPoolClient } from '../client.js';
+import { WarmPool } from '../pool.js';
+import type { WarmPoolConfig } from '../types.js';
+import { FakeContainerNamespace, type FakeContainerBehavior } from './containers.js';
+import { FakeKVNamespace } from './kv.js';
+import { FakeDurableObjectNamespace } from './objects.js';
+
+/**
+ * Options for `createTestPool()`
+ */
+export interface TestPoolOptions {
+  /** Pool config passed to `createWarmPool()`. Use the `idCache` option instead of `config.idCache`. */
+  config?: Omit<WarmPoolConfig, 'idCache'>;
+
+  /** Give the client a fake KV namespace as `idCache` */
+  idCache?: boolean;
+
+  /** Initial behavior of fake containers */
+  containers?: FakeContainerBehavior;
+
+  /** Extra bindings for the pool's env, e.g. fake queues for lifecycle events */
+  env?: Record<string, unknown>;
+}
+
+/**
+ * A warm pool wired to in-memory fakes
+ */
+export interface TestPool {
+  /** Client created with `createWarmPool()` */
+  pool: WarmPoolClient;
+  /** Fake container namespace - script container behavior here */
+  containers: FakeContainerNamespace;
+  /** Fake WarmPool namespace - one instance per pool (or shard) name */
+  pools: FakeDurableObjectNamespace<WarmPool>;
+  /** Fake KV namespace used as `idCache`, if enabled */
+  idCache?: FakeKVNamespace;
+
+  /**
+   * Run the refresh alarm of every pool instance, then wait for the
+   * replenishment it started. Sends the client's config first, so pools that
+   * haven't been called yet are created and configured.
+   */
+  runAlarm(): Promise<void>;
+
+  /**
+   * Wait until no container start or event delivery is in progress
+   */
+  settle(): Promise<void>;
+}
+
+const MAX_SETTLE_ROUNDS = 1000;
+
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Create a warm pool backed by fake containers, storage and KV
+ *
+ * Nothing runs in the background on its own: call `runAlarm()` to run a
+ * refresh cycle (health checks, lease expiry, scaling).
+ *
+ * @example
+ * ```ts
+ * const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 2 } });
+ * await runAlarm();
+ * expect(containers.running()).toHaveLength(2);
+ * ```
+ */
+export async function createTestPool(options: TestPoolOptions = {}): Promise<TestPool> {
+  const containers = new FakeContainerNamespace(options.containers);
+  const env = { ...options.env, CONTAINER: containers.asBinding() };
+  const pools = new FakeDurableObjectNamespace((state) => new WarmPool(state, env));
+  const idCache = options.idCache ? new FakeKVNamespace() : undefined;
+
+  const pool = createWarmPool(pools.asBinding(), containers.asBinding(), {
+    ...options.config,
+    idCache: idCache?.asBinding(),
+  });
+
+  const settle = async () => {
+    // Work chains through several awaits, so keep going until a few rounds pass idle
+    let idleRounds = 0;
+    for (let round = 0; idleRounds < 3; round++) {
+      if (round >= MAX_SETTLE_ROUNDS) {
+        throw new Error('Test pool did not settle');
+      }
+      await nextTick();
+      const busy = await containers.settle() || await pools.settle();
+      idleRounds = busy ? 0 : idleRounds + 1;
+    }
+  };
+
+  return {
+    pool,
+    containers,
+    pools,
+    idCache,
+    async runAlarm() {
+      await pool.stats();
+      await pools.runAlarms();
+      await settle();
+    },
+    settle,
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * cf-container-warm-pool/testing
+ *
+ * In-memory fakes for testing code that uses the warm pool without deploying:
+ * containers with scripted startup, Durable Object state with SQL storage and
+ * manual alarms, and KV for `idCache`.
+ *
+ * Requires `sql.js`, and `cloudflare:workers` aliased to
+ * `cf-container-warm-pool/testing/workers` in your test runner.
+ */
+
+export { createTestPool } from './harness.js';
+export { FakeContainer, FakeContainerNamespace } from './containers.js';
+export { FakeDurableObjectNamespace } from './objects.js';
+export { FakeKVNamespace } from './kv.js';
+export {
+  createFakeState,
+  FakeDurableObjectId,
+  FakeDurableObjectState,
+  FakeDurableObjectStorage,
+  FakeSqlStorage,
+} from './storage.js';
+
+export type { TestPool, TestPoolOptions } from './harness.js';
+export type { FakeContainerBehavior, FakeContainerStatus } from './containers.js';
+export type { FakeDurableObject } from './objects.js';
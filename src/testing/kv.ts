@@ -0,0 +1,45 @@
+/**
+ * In-memory KV namespace, e.g. for the client's `idCache`
+ *
+ * Supports `get` (text and json), `put`, `delete` and `list`. Expiration options
+ * are ignored.
+ */
+export class FakeKVNamespace {
+  /** Stored values by key */
+  readonly entries = new Map<string, string>();
+
+  /** Number of `get()` calls, to check whether a lookup hit the cache */
+  reads = 0;
+
+  async get<T = string>(key: string, type?: 'text' | 'json' | { type?: 'text' | 'json' }): Promise<T | null> {
+    this.reads++;
+    const value = this.entries.get(key);
+    if (value === undefined) return null;
+
+    const format = typeof type === 'object' ? type.type : type;
+    return (format === 'json' ? JSON.parse(value) : value) as T;
+  }
+
+  async put(key: string, value: string | ArrayBuffer | ArrayBufferView): Promise<void> {
+    this.entries.set(key, typeof value === 'string' ? value : new TextDecoder().decode(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(options: { prefix?: string } = {}): Promise<{ keys: { name: string }[]; list_complete: true }> {
+    const keys = [...this.entries.keys()]
+      .filter((name) => !options.prefix || name.startsWith(options.prefix))
+      .sort()
+      .map((name) => ({ name }));
+    return { keys, list_complete: true };
+  }
+
+  /**
+   * This namespace typed as a `KVNamespace` binding
+   */
+  asBinding(): KVNamespace {
+    return this as unknown as KVNamespace;
+  }
+}
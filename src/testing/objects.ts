@@ -0,0 +1,136 @@
+import { createFakeState, FakeDurableObjectId, type FakeDurableObjectState } from './storage.js';
+
+/**
+ * A Durable Object instance with its fake state
+ */
+export interface FakeDurableObject<T> {
+  instance: T;
+  state: FakeDurableObjectState;
+}
+
+/**
+ * Mimic an RPC call: arguments and results are structured-cloned, and errors
+ * lose their class like they do across the RPC boundary
+ */
+async function callRpc(instance: object, method: string, args: unknown[]): Promise<unknown> {
+  const fn = (instance as Record<string, unknown>)[method];
+  if (typeof fn !== 'function') {
+    throw new TypeError(`RPC method '${method}' does not exist`);
+  }
+
+  // Requests and responses can't be cloned - fetch() passes them through
+  if (method === 'fetch') {
+    return fn.apply(instance, args);
+  }
+
+  try {
+    return structuredClone(await fn.apply(instance, structuredClone(args)));
+  } catch (error) {
+    throw error instanceof Error ? new Error(error.message) : error;
+  }
+}
+
+/**
+ * Fake Durable Object namespace that runs objects in the same process
+ *
+ * Each name gets one instance, created with a fresh `FakeDurableObjectState`
+ * on first use. Stubs returned by `get()` forward method calls like RPC.
+ *
+ * @example
+ * ```ts
+ * const pools = new FakeDurableObjectNamespace((state) => new WarmPool(state, env));
+ * const stub = pools.get(pools.idFromName('global-pool'));
+ * await stub.getStats();
+ * ```
+ */
+export class FakeDurableObjectNamespace<T extends object> {
+  private objects = new Map<string, Promise<FakeDurableObject<T>>>();
+
+  constructor(private factory: (state: DurableObjectState, name: string) => T) {}
+
+  idFromName(name: string): FakeDurableObjectId {
+    return new FakeDurableObjectId(name);
+  }
+
+  get(id: DurableObjectId): DurableObjectStub<T & Rpc.DurableObjectBranded> {
+    const name = id.name ?? id.toString();
+    const stub = new Proxy({}, {
+      get: (_target, method) => {
+        // Keep the stub from looking like a promise
+        if (typeof method !== 'string' || method === 'then') return undefined;
+        return async (...args: unknown[]) => {
+          const { instance } = await this.object(name);
+          return callRpc(instance, method, args);
+        };
+      },
+    });
+    return stub as DurableObjectStub<T & Rpc.DurableObjectBranded>;
+  }
+
+  /**
+   * Get the instance and state for a name, creating them if needed
+   */
+  object(name: string): Promise<FakeDurableObject<T>> {
+    let object = this.objects.get(name);
+    if (!object) {
+      object = createFakeState(name).then((state) => ({
+        instance: this.factory(state as unknown as DurableObjectState, name),
+        state,
+      }));
+      this.objects.set(name, object);
+    }
+    return object;
+  }
+
+  /**
+   * Names of the objects created so far
+   */
+  names(): string[] {
+    return [...this.objects.keys()];
+  }
+
+  /**
+   * Run the scheduled alarm of every object that has one, like the runtime
+   * does once the alarm time is reached. The alarm is cleared before the
+   * handler runs, so the handler can schedule the next one.
+   *
+   * @param options.due - Only run alarms scheduled at or before the current time
+   * @returns Number of alarms run
+   */
+  async runAlarms(options: { due?: boolean } = {}): Promise<number> {
+    let count = 0;
+    for (const object of this.objects.values()) {
+      const { instance, state } = await object;
+      const scheduled = state.storage.alarm;
+      if (scheduled === null || (options.due && scheduled > Date.now())) continue;
+
+      state.storage.alarm = null;
+      await (instance as { alarm?: () => Promise<void> }).alarm?.();
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Wait for all promises passed to `waitUntil()`
+   * @returns true if any promise was pending
+   */
+  async settle(): Promise<boolean> {
+    let waited = false;
+    for (const object of this.objects.values()) {
+      const { state } = await object;
+      if (state.pending.size > 0) {
+        await Promise.allSettled([...state.pending]);
+        waited = true;
+      }
+    }
+    return waited;
+  }
+
+  /**
+   * This namespace typed as a Durable Object namespace binding
+   */
+  asBinding(): DurableObjectNamespace<T & Rpc.DurableObjectBranded> {
+    return this as unknown as DurableObjectNamespace<T & Rpc.DurableObjectBranded>;
+  }
+}
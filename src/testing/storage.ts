@@ -0,0 +1,257 @@
+import initSqlJs from 'sql.js';
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+
+let sqlite: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load the SQLite engine (sql.js) once per process
+ */
+function loadSqlite(): Promise<SqlJsStatic> {
+  sqlite ??= initSqlJs();
+  return sqlite;
+}
+
+function toSqlValue(value: unknown): SqlValue {
+  if (value === null || typeof value === 'string' || typeof value === 'number' || value instanceof Uint8Array) {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value);
+  }
+  throw new TypeError(`Unsupported SQL binding: ${String(value)}`);
+}
+
+/**
+ * Result of `FakeSqlStorage.exec()`, with the parts of `SqlStorageCursor` the
+ * pool uses. Rows are read eagerly.
+ */
+class FakeSqlCursor<T extends Record<string, SqlStorageValue>> {
+  readonly columnNames: string[];
+  readonly rowsRead: number;
+  readonly rowsWritten: number;
+  private rows: T[];
+
+  constructor(columnNames: string[], rows: T[], rowsWritten: number) {
+    this.columnNames = columnNames;
+    this.rows = rows;
+    this.rowsRead = rows.length;
+    this.rowsWritten = rowsWritten;
+  }
+
+  next(): IteratorResult<T> {
+    const row = this.rows.shift();
+    return row ? { done: false, value: row } : { done: true, value: undefined };
+  }
+
+  toArray(): T[] {
+    const rows = this.rows;
+    this.rows = [];
+    return rows;
+  }
+
+  one(): T {
+    const rows = this.toArray();
+    if (rows.length !== 1) {
+      throw new Error(`Expected exactly one row from query, got ${rows.length}`);
+    }
+    return rows[0];
+  }
+
+  raw<U extends SqlStorageValue[]>(): IterableIterator<U> {
+    const columns = this.columnNames;
+    return this.toArray().map((row) => columns.map((column) => row[column]) as U)[Symbol.iterator]();
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.toArray()[Symbol.iterator]();
+  }
+}
+
+/**
+ * In-memory `SqlStorage` backed by sql.js
+ */
+export class FakeSqlStorage {
+  constructor(private db: Database) {}
+
+  exec<T extends Record<string, SqlStorageValue>>(query: string, ...bindings: unknown[]): SqlStorageCursor<T> {
+    const statement = this.db.prepare(query);
+    try {
+      statement.bind(bindings.map(toSqlValue));
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      const rowsWritten = /^\s*(insert|update|delete|replace)\b/i.test(query) ? this.db.getRowsModified() : 0;
+      return new FakeSqlCursor(statement.getColumnNames(), rows, rowsWritten) as unknown as SqlStorageCursor<T>;
+    } finally {
+      statement.free();
+    }
+  }
+
+  get databaseSize(): number {
+    return this.db.export().byteLength;
+  }
+}
+
+/**
+ * In-memory `DurableObjectStorage`: key-value storage, SQL and a single alarm
+ *
+ * Values are structured-cloned on the way in and out, like the real storage.
+ */
+export class FakeDurableObjectStorage {
+  readonly sql: SqlStorage;
+
+  /** Scheduled alarm time (ms since epoch), or null */
+  alarm: number | null = null;
+
+  private data = new Map<string, unknown>();
+  private savepoints = 0;
+
+  constructor(private db: Database) {
+    this.sql = new FakeSqlStorage(db) as unknown as SqlStorage;
+  }
+
+  async get<T>(keyOrKeys: string | string[]): Promise<T | undefined | Map<string, T>> {
+    if (Array.isArray(keyOrKeys)) {
+      const result = new Map<string, T>();
+      for (const key of keyOrKeys) {
+        if (this.data.has(key)) {
+          result.set(key, structuredClone(this.data.get(key)) as T);
+        }
+      }
+      return result;
+    }
+    return structuredClone(this.data.get(keyOrKeys)) as T | undefined;
+  }
+
+  async put<T>(keyOrEntries: string | Record<string, T>, value?: T): Promise<void> {
+    const entries = typeof keyOrEntries === 'string' ? { [keyOrEntries]: value } : keyOrEntries;
+    for (const [key, entry] of Object.entries(entries)) {
+      this.data.set(key, structuredClone(entry));
+    }
+  }
+
+  async delete(keyOrKeys: string | string[]): Promise<boolean | number> {
+    if (Array.isArray(keyOrKeys)) {
+      return keyOrKeys.filter((key) => this.data.delete(key)).length;
+    }
+    return this.data.delete(keyOrKeys);
+  }
+
+  async list<T>(options: { prefix?: string } = {}): Promise<Map<string, T>> {
+    const result = new Map<string, T>();
+    for (const key of [...this.data.keys()].sort()) {
+      if (!options.prefix || key.startsWith(options.prefix)) {
+        result.set(key, structuredClone(this.data.get(key)) as T);
+      }
+    }
+    return result;
+  }
+
+  async deleteAll(): Promise<void> {
+    this.data.clear();
+    this.alarm = null;
+  }
+
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
+  }
+
+  async setAlarm(scheduledTime: number | Date): Promise<void> {
+    this.alarm = typeof scheduledTime === 'number' ? scheduledTime : scheduledTime.getTime();
+  }
+
+  async deleteAlarm(): Promise<void> {
+    this.alarm = null;
+  }
+
+  /**
+   * Run a closure in a SQL transaction. Nested calls use savepoints.
+   */
+  transactionSync<T>(closure: () => T): T {
+    const name = `fake_tx_${this.savepoints++}`;
+    this.db.run(`SAVEPOINT ${name}`);
+    try {
+      const result = closure();
+      this.db.run(`RELEASE ${name}`);
+      return result;
+    } catch (error) {
+      this.db.run(`ROLLBACK TO ${name}`);
+      this.db.run(`RELEASE ${name}`);
+      throw error;
+    } finally {
+      this.savepoints--;
+    }
+  }
+
+  async sync(): Promise<void> {}
+}
+
+/**
+ * Durable Object ID for a named fake object
+ */
+export class FakeDurableObjectId {
+  constructor(readonly name: string) {}
+
+  /** Hex encoding of the name, so IDs are stable and distinct per name */
+  toString(): string {
+    return Array.from(new TextEncoder().encode(this.name), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  equals(other: DurableObjectId): boolean {
+    return other.toString() === this.toString();
+  }
+}
+
+/**
+ * In-memory `DurableObjectState`
+ *
+ * Promises passed to `waitUntil()` are collected in `pending` until they settle,
+ * and WebSockets accepted with `acceptWebSocket()` are kept in `webSockets`.
+ */
+export class FakeDurableObjectState {
+  readonly id: FakeDurableObjectId;
+  readonly storage: FakeDurableObjectStorage;
+  readonly pending = new Set<Promise<unknown>>();
+  readonly webSockets: { socket: WebSocket; tags: string[] }[] = [];
+
+  constructor(name: string, db: Database) {
+    this.id = new FakeDurableObjectId(name);
+    this.storage = new FakeDurableObjectStorage(db);
+  }
+
+  waitUntil(promise: Promise<unknown>): void {
+    const tracked = promise.catch(() => {}).finally(() => this.pending.delete(tracked));
+    this.pending.add(tracked);
+  }
+
+  async blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+    return callback();
+  }
+
+  acceptWebSocket(socket: WebSocket, tags: string[] = []): void {
+    this.webSockets.push({ socket, tags });
+  }
+
+  getWebSockets(tag?: string): WebSocket[] {
+    return this.webSockets
+      .filter((entry) => tag === undefined || entry.tags.includes(tag))
+      .map((entry) => entry.socket);
+  }
+
+  getTags(socket: WebSocket): string[] {
+    return this.webSockets.find((entry) => entry.socket === socket)?.tags ?? [];
+  }
+}
+
+/**
+ * Create an in-memory Durable Object state with an empty SQLite database
+ * @param name - Name of the object, used for its ID
+ */
+export async function createFakeState(name = 'test'): Promise<FakeDurableObjectState> {
+  const SQL = await loadSqlite();
+  return new FakeDurableObjectState(name, new SQL.Database());
+}
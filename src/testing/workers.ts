@@ -0,0 +1,20 @@
+/**
+ * Stand-in for the `cloudflare:workers` module outside the Workers runtime
+ *
+ * `WarmPool` extends `DurableObject` from `cloudflare:workers`, which only
+ * exists inside workerd. Alias the module to this file in your test runner to
+ * import the pool in Node, e.g. with Vitest:
+ *
+ * ```ts
+ * resolve: { alias: { 'cloudflare:workers': 'cf-container-warm-pool/testing/workers' } }
+ * ```
+ */
+export class DurableObject<Env = unknown> {
+  protected ctx: DurableObjectState;
+  protected env: Env;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    this.ctx = ctx;
+    this.env = env;
+  }
+}
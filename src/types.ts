@@ -9,12 +9,82 @@ export interface WarmPoolConfig {
    */
   warmTarget?: number;
 
+  /**
+   * Scale the warm target with demand instead of using a fixed `warmTarget`.
+   * When set, `warmTarget` is ignored.
+   */
+  autoscale?: AutoscaleConfig;
+
+  /**
+   * Time windows with their own warm target, e.g. for known peak hours.
+   * The first window covering the current time replaces `warmTarget`.
+   * With `autoscale`, the window's target acts as a floor.
+   */
+  schedule?: WarmSchedule;
+
   /**
    * How often to check and replenish warm containers (ms)
    * @default 10000 (10 seconds)
    */
   refreshInterval?: number;
 
+  /**
+   * Maximum number of containers started in parallel when replenishing the pool
+   * @default 5
+   */
+  startConcurrency?: number;
+
+  /**
+   * Maximum time to wait for a container to start and open its ports (ms).
+   * Containers that take longer are stopped and the start is retried.
+   * @default 120000 (2 minutes)
+   */
+  startTimeout?: number;
+
+  /**
+   * Number of times a failed container start is retried
+   * @default 2
+   */
+  startRetries?: number;
+
+  /**
+   * Delay before the first retry of a failed start (ms). Doubles on each retry.
+   * @default 1000 (1 second)
+   */
+  startRetryBackoff?: number;
+
+  /**
+   * Maximum number of containers the pool runs at once, counting warm, assigned
+   * and starting containers. When the pool is full, `getContainer()` waits in a
+   * FIFO queue for a container to free up.
+   * @default unlimited
+   */
+  maxTotal?: number;
+
+  /**
+   * Number of user IDs that can share one container. Above 1, `getContainer()`
+   * places a new ID on the least-loaded assigned container with a free slot
+   * before taking a warm one, and releasing an ID only frees its slot until
+   * the last ID sharing the container is released.
+   * @default 1 (a container per ID)
+   */
+  sessionsPerContainer?: number;
+
+  /**
+   * How long `getContainer()` waits in the queue when the pool is full before
+   * rejecting with `PoolExhaustedError` (ms). Can be overridden per call.
+   * @default 30000 (30 seconds)
+   */
+  acquireTimeout?: number;
+
+  /**
+   * Named container variants managed by this pool, each with its own warm set.
+   * Containers requested without a profile use the 'default' profile, which
+   * follows `warmTarget`, `autoscale` and `schedule`. Define a 'default' entry
+   * to give default containers start options.
+   */
+  profiles?: Record<string, ProfileConfig>;
+
   /**
    * Name of the pool instance. Use this if you have multiple container types
    * and need separate warm pools for each.
@@ -22,18 +92,708 @@ export interface WarmPoolConfig {
    */
   poolName?: string;
 
+  /**
+   * Number of WarmPool instances to spread the pool across. Session IDs are
+   * routed to a shard by consistent hashing, and each shard keeps its share of
+   * the warm target. Use this when a single WarmPool instance becomes a
+   * throughput bottleneck.
+   * @default 1
+   */
+  shards?: number;
+
   /**
    * Optional KV namespace used to cache `userId -> containerId` lookups.
    * When present, `getContainer()` will read from KV first and only fall back to the
    * warm pool Durable Object on a miss.
    */
   idCache?: KVNamespace;
+
+  /**
+   * Hook run on a container when it is released with `mode: 'recycle'`.
+   * If the hook succeeds the container goes back into the warm pool, otherwise
+   * it is stopped. Without a reset hook, recycled containers are always stopped.
+   */
+  resetHook?: ContainerHook;
+
+  /**
+   * Hook run on every new container after its ports are open and before it is
+   * handed out or counted as warm. Use it to load models, fill caches, etc.
+   * Containers that fail the hook (or time out) are stopped.
+   */
+  warmup?: ContainerHook;
+
+  /**
+   * How tracked containers are checked each refresh, in addition to `getState()`:
+   * an optional probe and how many failed checks in a row evict a container
+   */
+  healthCheck?: HealthCheckConfig;
+
+  /**
+   * Stop attempting container starts for a while after several starts in a
+   * row have failed (e.g. quota exceeded or a broken image)
+   */
+  circuitBreaker?: CircuitBreakerConfig;
+
+  /**
+   * Prices per instance type, used to turn container-seconds into estimated
+   * spend in `stats().usage` and `sessionUsage()`
+   */
+  pricing?: PricingConfig;
+
+  /**
+   * Budget for warm (idle) container-seconds per rolling hour. While it is
+   * exceeded, the warm target is reduced to what the budget sustains
+   * (`floor(budget / 3600)` containers).
+   */
+  maxIdleContainerSecondsPerHour?: number;
+
+  /**
+   * What happens to a container whose lease expires (see `GetContainerOptions.leaseMs`).
+   * Always 'stop' when `idCache` is set.
+   * @default 'stop'
+   */
+  leaseExpiry?: ReleaseMode;
+
+  /**
+   * Where to send structured lifecycle events (container started, assigned,
+   * released, evicted, etc.)
+   */
+  events?: EventSinkConfig;
+
+  /**
+   * Version of the container image (or any generation label). Recorded on each
+   * container when it starts. When it changes, warm containers started with
+   * another version are replaced in batches and no longer assigned.
+   */
+  version?: string;
+
+  /**
+   * Maximum number of replacement containers started per refresh while warm
+   * containers of an older `version` (or past `maxWarmAge` / `maxIdleWarm`)
+   * are being replaced
+   * @default 5
+   */
+  rolloutBatchSize?: number;
+
+  /**
+   * Maximum time since a container started before it is replaced while warm,
+   * and stopped instead of recycled on release (ms). Limits the build-up of
+   * leaked memory and stale credentials in long-lived containers.
+   */
+  maxWarmAge?: number;
+
+  /**
+   * Maximum time a container can sit warm without being assigned before it is
+   * replaced (ms)
+   */
+  maxIdleWarm?: number;
+}
+
+/**
+ * Demand-driven autoscaling of the warm target
+ */
+export interface AutoscaleConfig {
+  /** Minimum number of warm containers to keep */
+  minWarm: number;
+  /** Maximum number of warm containers to keep */
+  maxWarm: number;
+  /**
+   * Weight of the latest sample in the smoothed rates (0-1).
+   * Higher values react faster to traffic changes, lower values are steadier.
+   * @default 0.3
+   */
+  smoothing?: number;
+}
+
+/**
+ * Time-based warm targets
+ */
+export interface WarmSchedule {
+  /**
+   * IANA timezone the window times are in, e.g. 'America/New_York'
+   * @default 'UTC'
+   */
+  timezone?: string;
+  /** Windows checked in order - the first one covering the current time wins */
+  windows: ScheduleWindow[];
+}
+
+/**
+ * A recurring weekday/time window, optionally limited to a date range.
+ * Omitted fields don't restrict the window.
+ */
+export interface ScheduleWindow {
+  /** Label reported in stats while the window is active */
+  name?: string;
+  /** Days of the week the window applies to, 0 (Sunday) to 6 (Saturday) */
+  days?: number[];
+  /**
+   * Start time of day as 'HH:MM'. If later than `end`, the window wraps past midnight.
+   * @default '00:00'
+   */
+  start?: string;
+  /**
+   * End time of day as 'HH:MM' (exclusive)
+   * @default '24:00'
+   */
+  end?: string;
+  /** The window only applies from this date (ISO 8601), e.g. for a launch */
+  from?: string;
+  /** The window no longer applies from this date (ISO 8601) */
+  until?: string;
+  /** Warm target while the window is active */
+  warmTarget: number;
+}
+
+/**
+ * A named container variant
+ */
+export interface ProfileConfig {
+  /**
+   * Number of warm containers to keep for this profile.
+   * Ignored for the 'default' profile, which uses the pool's `warmTarget`.
+   * @default 0
+   */
+  warmTarget?: number;
+  /** Options passed to the container when it starts */
+  startOptions?: ContainerStartOptions;
+  /** Instance type for cost estimates. Defaults to `pricing.instanceType`. */
+  instanceType?: string;
+}
+
+/**
+ * Per-instance options for starting a container
+ * (mirrors `ContainerStartConfigOptions` from @cloudflare/containers)
+ */
+export interface ContainerStartOptions {
+  /** Environment variables to pass to the container */
+  envVars?: Record<string, string>;
+  /** Custom entrypoint to override the container default */
+  entrypoint?: string[];
+  /** Whether to enable internet access for the container */
+  enableInternet?: boolean;
+}
+
+/**
+ * Options for getting a container
+ */
+export interface GetContainerOptions {
+  /**
+   * Profile to draw the container from. Only applies when the ID has no
+   * assigned container yet.
+   * @default 'default'
+   */
+  profile?: string;
+
+  /**
+   * Lease the container for this long (ms). If the lease isn't renewed with
+   * `renewLease()` (or another `getContainer()` call with `leaseMs`) before it
+   * expires, the pool releases the container according to `leaseExpiry`.
+   * Without a lease, the assignment lasts as long as the container runs.
+   * Not supported with `idCache` when `sessionsPerContainer` is above 1.
+   */
+  leaseMs?: number;
+
+  /**
+   * How long to wait for capacity when the pool is at `maxTotal` (ms)
+   * @default config.acquireTimeout
+   */
+  timeout?: number;
+}
+
+/**
+ * A hook the pool runs against a container, either as an RPC call or an HTTP request
+ */
+export type ContainerHook = ContainerRpcHook | ContainerHttpHook;
+
+/**
+ * Hook that calls an RPC method (with no arguments) on the container class.
+ * Succeeds if the method resolves.
+ */
+export interface ContainerRpcHook {
+  /** Name of the RPC method to call */
+  method: string;
+  /**
+   * Maximum time to wait for the hook (ms)
+   * @default 30000 (30 seconds)
+   */
+  timeout?: number;
+}
+
+/**
+ * Hook that sends an HTTP request to the container.
+ * Succeeds if the response status matches `expectedStatus`.
+ */
+export interface ContainerHttpHook {
+  /** Request path, e.g. '/reset' */
+  path: string;
+  /**
+   * HTTP method to use
+   * @default 'GET'
+   */
+  httpMethod?: string;
+  /**
+   * Status the container must respond with
+   * @default 200
+   */
+  expectedStatus?: number;
+  /**
+   * Maximum time to wait for the response (ms)
+   * @default 30000 (30 seconds)
+   */
+  timeout?: number;
+}
+
+/**
+ * Health check settings
+ */
+export interface HealthCheckConfig {
+  /**
+   * Probe run on each running container, e.g. `{ path: '/health', timeout: 5000 }`.
+   * Catches containers whose ports are open but whose app has hung.
+   * Defaults to a 5 second timeout.
+   */
+  probe?: ContainerHook;
+
+  /**
+   * Consecutive failed checks (probe failures or `getState()` errors) before a
+   * container is stopped and removed. Containers that `getState()` reports
+   * stopped are removed right away.
+   * @default 3
+   */
+  failureThreshold?: number;
+
+  /**
+   * Maximum number of containers checked at once
+   * @default 10
+   */
+  concurrency?: number;
+}
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * Consecutive start failures that open the circuit. 0 disables the breaker.
+   * @default 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long an open circuit refuses starts before letting a trial start through (ms)
+   * @default 30000 (30 seconds)
+   */
+  cooldown?: number;
+}
+
+/**
+ * Prices used for cost estimates
+ */
+export interface PricingConfig {
+  /** Price per container-second of each instance type, e.g. `{ basic: 0.00001, standard: 0.00004 }` */
+  prices: Record<string, number>;
+  /** Instance type of containers in the default profile and profiles without one */
+  instanceType: string;
+}
+
+/**
+ * Circuit breaker state
+ * - `closed`: starts are attempted normally
+ * - `open`: starts are refused until the cooldown has passed
+ * - `half-open`: the cooldown has passed; one trial start decides whether the
+ *   circuit closes or opens again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * How a released container is handled
+ * - `stop`: stop the container immediately
+ * - `recycle`: run the reset hook and return the container to the warm pool
+ */
+export type ReleaseMode = 'stop' | 'recycle';
+
+/**
+ * Pool operating mode
+ * - `active`: assign containers and keep the warm pool at its target
+ * - `paused`: assign containers, but start and stop no warm containers
+ * - `draining`: stop all warm containers and make no new assignments
+ */
+export type PoolMode = 'active' | 'paused' | 'draining';
+
+/**
+ * Options for a pre-warm burst
+ */
+export interface PrewarmOptions {
+  /** When the extra warm containers are no longer needed (ms since epoch) */
+  expiresAt: number;
+
+  /**
+   * Profile to pre-warm
+   * @default 'default'
+   */
+  profile?: string;
+}
+
+/**
+ * Options for reserving containers
+ */
+export interface ReserveOptions {
+  /** When reservations that haven't been claimed are released (ms since epoch) */
+  expiresAt: number;
+
+  /**
+   * Profile to draw the containers from
+   * @default 'default'
+   */
+  profile?: string;
+}
+
+/**
+ * Outcome of `reserve()`
+ */
+export interface ReserveResult {
+  /** IDs that now have a container, including IDs that already had one */
+  reserved: string[];
+  /** IDs that couldn't get a container, with the reason */
+  failed: { id: string; error: string }[];
+}
+
+/**
+ * Options for releasing a container
+ */
+export interface ReleaseOptions {
+  /**
+   * How to handle the released container
+   * @default 'stop'
+   */
+  mode?: ReleaseMode;
+}
+
+/**
+ * Outcome of a release
+ * - `stopped`: the container was stopped
+ * - `recycled`: the container was reset and returned to the warm pool
+ * - `released`: the ID's slot was freed, and the container keeps running for
+ *   the other IDs sharing it (see `sessionsPerContainer`)
+ * - `not_found`: the ID had no assigned container
+ */
+export type ReleaseResult = 'stopped' | 'recycled' | 'released' | 'not_found';
+
+/**
+ * Container state as reported by its `getState()` method
+ * @see https://github.com/cloudflare/containers/blob/main/src/types/index.ts
+ */
+export interface ContainerState {
+  status: 'running' | 'stopping' | 'stopped' | 'healthy' | 'stopped_with_code';
+  /** When the status last changed (ms since epoch) */
+  lastChange: number;
+  exitCode?: number;
+}
+
+/**
+ * A user ID's container assignment
+ */
+export interface AssignmentInfo {
+  userID: string;
+  containerUUID: string;
+  /** Profile the container was started with */
+  profile: string;
+  /** Config `version` the container was started with, or null if none was set */
+  version: string | null;
+  /** True if the container was started with an older `version` than the current one */
+  outdated: boolean;
+  /** When the container was assigned (ms since epoch) */
+  assignedAt: number;
+  /** When the lease expires (ms since epoch), or null if the assignment has no lease */
+  leaseExpiresAt: number | null;
+  /** When the reservation expires if the ID doesn't claim it (ms since epoch), or null if not reserved */
+  reservedUntil: number | null;
+  /** Current state of the container, or null if `getState()` failed */
+  state: ContainerState | null;
+}
+
+/**
+ * Options for listing assignments
+ */
+export interface ListAssignmentsOptions {
+  /**
+   * Maximum number of assignments to return (1-1000)
+   * @default 100
+   */
+  limit?: number;
+
+  /** Cursor returned by the previous page */
+  cursor?: string;
+}
+
+/**
+ * A page of assignments, ordered by user ID within each shard
+ */
+export interface AssignmentPage {
+  assignments: AssignmentInfo[];
+  /** Cursor for the next page, or null if this is the last one */
+  cursor: string | null;
+}
+
+/**
+ * Pool settings changed at runtime, applied on top of the config passed to
+ * `createWarmPool()`. A null value removes the override for that setting.
+ */
+export type ConfigOverrides = {
+  [K in keyof PoolConfigInternal]?: PoolConfigInternal[K] | null;
+};
+
+/**
+ * Lifecycle event types
+ * - `container.started`: a container started and passed its warm-up hook
+ * - `container.start_failed`: a start attempt failed or timed out
+ * - `container.assigned`: a container was assigned to a user ID
+ * - `container.released`: an assignment was released (explicitly, by lease expiry or by an unclaimed reservation expiring)
+ * - `container.evicted`: the health check found a container stopped or unhealthy and removed it
+ * - `container.stop_reported`: a container reported itself stopped
+ * - `container.reconciled`: a container left over from an interrupted start was adopted or stopped
+ * - `pool.scaled_up` / `pool.scaled_down`: the pool started or stopped warm containers
+ * - `pool.mode_changed`: the pool was paused, drained or resumed
+ * - `pool.circuit_opened` / `pool.circuit_closed`: the circuit breaker stopped or resumed container starts
+ */
+export type PoolEventType =
+  | 'container.started'
+  | 'container.start_failed'
+  | 'container.assigned'
+  | 'container.released'
+  | 'container.evicted'
+  | 'container.stop_reported'
+  | 'container.reconciled'
+  | 'pool.scaled_up'
+  | 'pool.scaled_down'
+  | 'pool.mode_changed'
+  | 'pool.circuit_opened'
+  | 'pool.circuit_closed';
+
+/**
+ * A structured lifecycle event
+ */
+export interface PoolEvent {
+  type: PoolEventType;
+  /** When the event happened (ms since epoch) */
+  timestamp: number;
+  /** User ID involved, if any */
+  userID?: string;
+  /** Container involved, if any */
+  containerUUID?: string;
+  /** Profile of the container, if any */
+  profile?: string;
+  /** How long the operation took (ms), e.g. startup time or time to acquire */
+  duration?: number;
+  /** Index of the shard that emitted the event, for sharded pools */
+  shard?: number;
+  /** Event-specific details, e.g. `{ warm: true }` for assignments */
+  detail?: Record<string, string | number | boolean | null>;
+}
+
+/**
+ * Event sinks. Any combination can be enabled - delivery is best-effort.
+ */
+export interface EventSinkConfig {
+  /** Name of a Queue binding in the Worker's env to send events to */
+  queue?: string;
+  /** URL to POST each event to as JSON, optionally with extra headers */
+  webhook?: string | { url: string; headers?: Record<string, string> };
+  /**
+   * Broadcast events to WebSocket subscribers of the WarmPool Durable Object
+   * (see `WarmPoolClient.subscribeEvents()`)
+   */
+  websocket?: boolean;
+  /** Only deliver these event types (default: all) */
+  types?: PoolEventType[];
+}
+
+/**
+ * Internal pool config (excludes options that are only used client-side)
+ */
+export type PoolConfigInternal = Omit<WarmPoolConfig, 'poolName' | 'idCache' | 'shards'>;
+
+/**
+ * Pool config options that have no default and stay optional once resolved
+ */
+type OptionalPoolConfigKeys =
+  | 'autoscale'
+  | 'schedule'
+  | 'maxTotal'
+  | 'profiles'
+  | 'resetHook'
+  | 'warmup'
+  | 'healthCheck'
+  | 'circuitBreaker'
+  | 'pricing'
+  | 'maxIdleContainerSecondsPerHour'
+  | 'events'
+  | 'version'
+  | 'maxWarmAge'
+  | 'maxIdleWarm';
+
+/**
+ * Pool config with defaults applied
+ */
+export type ResolvedPoolConfig =
+  Required<Omit<PoolConfigInternal, OptionalPoolConfigKeys>> &
+  Pick<PoolConfigInternal, OptionalPoolConfigKeys>;
+
+/**
+ * Details of a failed container start
+ */
+export interface StartError {
+  /** UUID of the container that failed to start */
+  containerUUID: string;
+  /** Error message */
+  message: string;
+  /** When the failure happened (ms since epoch) */
+  at: number;
+}
+
+/**
+ * Container startup counters
+ */
+export interface StartupStats {
+  /** Containers started successfully */
+  started: number;
+  /** Start attempts that failed, including timeouts and failed warm-ups */
+  failed: number;
+  /** Start attempts that timed out */
+  timedOut: number;
+  /** Most recent start failure */
+  lastError: StartError | null;
+}
+
+/**
+ * Circuit breaker statistics
+ */
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  /** Start failures in a row */
+  consecutiveFailures: number;
+  /** When the circuit last opened (ms since epoch), or null while closed */
+  openedAt: number | null;
+  /** When the circuit lets a trial start through (ms since epoch), or null while closed */
+  retryAt: number | null;
+  /** Most recent start failure counted by the breaker */
+  lastError: StartError | null;
+}
+
+/**
+ * Container time accounting
+ */
+export interface UsageStats {
+  /** Container-seconds spent warm (idle, waiting to be assigned) */
+  warmSeconds: number;
+  /** Container-seconds spent assigned */
+  assignedSeconds: number;
+  /** Estimated spend based on `pricing`, or null without pricing */
+  estimatedCost: CostEstimate | null;
+  /** Idle budget status, or null without `maxIdleContainerSecondsPerHour` */
+  idleBudget: IdleBudgetStats | null;
+}
+
+/**
+ * Estimated spend, in the currency of the configured prices
+ */
+export interface CostEstimate {
+  warm: number;
+  assigned: number;
+  total: number;
+}
+
+/**
+ * Idle budget status
+ */
+export interface IdleBudgetStats {
+  /** Configured `maxIdleContainerSecondsPerHour` */
+  limit: number;
+  /** Warm container-seconds in the last hour */
+  idleSecondsLastHour: number;
+  /** Whether the budget is exceeded and the warm target reduced */
+  exceeded: boolean;
+  /** Number of warm containers the warm target is reduced by */
+  warmTargetReduction: number;
 }
 
 /**
- * Internal pool config (excludes poolName which is only used client-side)
+ * Container time used by a session ID
  */
-export type PoolConfigInternal = Omit<WarmPoolConfig, 'poolName' | 'idCache'>;
+export interface SessionUsage {
+  userID: string;
+  /** Profile of the session's most recent container */
+  profile: string;
+  /** Container-seconds the session has held containers */
+  assignedSeconds: number;
+  /** Estimated spend based on `pricing`, or null without pricing */
+  estimatedCost: number | null;
+}
+
+/**
+ * Smoothed demand measurements used for autoscaling
+ */
+export interface DemandStats {
+  /** Containers requested per second (warm hits plus cold starts) */
+  demandRate: number;
+  /** Cold starts per second */
+  coldStartRate: number;
+  /** Time to start and warm up a container (ms) */
+  startupLatency: number;
+}
+
+/**
+ * Stats about callers waiting for capacity
+ */
+export interface QueueStats {
+  /** Callers currently waiting */
+  depth: number;
+  /** Callers that got a container after waiting */
+  served: number;
+  /** Callers that gave up with PoolExhaustedError */
+  timedOut: number;
+  /** Average wait of served callers (ms) */
+  averageWait: number;
+  /** Longest wait of a served caller (ms) */
+  maxWait: number;
+}
+
+/**
+ * Stats for a single profile
+ */
+export interface ProfileStats {
+  /** Number of warm containers of this profile */
+  warm: number;
+  /** Number of assigned containers of this profile */
+  assigned: number;
+  /** Number of warm containers the pool is aiming for */
+  warmTarget: number;
+  /** Containers of this profile that had to be started on demand */
+  coldStarts: number;
+}
+
+/**
+ * Sharing of assigned containers between user IDs
+ */
+export interface SessionStats {
+  /** Number of user IDs with an assigned container */
+  assigned: number;
+  /** Slots left on assigned containers before new IDs need another container */
+  freeSlots: number;
+  /** Number of assigned containers by how many IDs they hold, e.g. `{ 1: 2, 4: 3 }` */
+  occupancy: Record<number, number>;
+}
+
+/**
+ * Container counts for a single version
+ */
+export interface VersionStats {
+  /** Number of warm containers started with this version */
+  warm: number;
+  /** Number of assigned containers started with this version */
+  assigned: number;
+}
 
 /**
  * Stats about the warm pool
@@ -45,6 +805,81 @@ export interface PoolStats {
   assigned: number;
   /** Total containers tracked by the pool */
   total: number;
-  /** Current pool configuration */
-  config: Required<PoolConfigInternal>;
+  /** Number of containers currently starting */
+  starting: number;
+  /** Container startup counters */
+  startup: StartupStats;
+  /** Circuit breaker that stops start attempts after repeated failures */
+  circuitBreaker: CircuitBreakerStats;
+  /** Container-seconds spent warm and assigned, estimated spend and idle budget */
+  usage: UsageStats;
+  /** How many user IDs share the assigned containers */
+  sessions: SessionStats;
+  /** IDs holding a reserved container they haven't claimed yet */
+  reserved: number;
+  /** Extra warm containers requested by active `prewarm()` bursts */
+  prewarm: number;
+  /** Callers waiting for capacity when the pool is at `maxTotal` */
+  queue: QueueStats;
+  /** Number of warm containers the pool is currently aiming for */
+  warmTarget: number;
+  /** Name of the active schedule window, if any */
+  scheduleWindow: string | null;
+  /** Smoothed demand measurements */
+  demand: DemandStats;
+  /** Per-profile breakdown, keyed by profile name */
+  profiles: Record<string, ProfileStats>;
+  /** Containers per `version`, keyed by version ('unversioned' for containers started without one) */
+  versions: Record<string, VersionStats>;
+  /** Operating mode, set with `setMode()` */
+  mode: PoolMode;
+  /** Current pool configuration, including runtime overrides */
+  config: ResolvedPoolConfig;
+  /** Settings changed at runtime with `overrideConfig()` (pool-wide values) */
+  configOverrides: PoolConfigInternal;
+  /** Stats of each shard, when the pool is sharded */
+  shards?: PoolStats[];
+}
+
+/**
+ * Distribution of observed values
+ */
+export interface Histogram {
+  /** Upper bound of each bucket, ascending */
+  bounds: number[];
+  /** Observations per bucket (not cumulative). The last entry counts values above every bound. */
+  counts: number[];
+  /** Sum of all observed values */
+  sum: number;
+  /** Number of observations */
+  count: number;
+}
+
+/**
+ * Counters and distributions collected by the pool
+ */
+export interface PoolMetrics {
+  /** Containers assigned from the warm pool */
+  warmHits: number;
+  /** Containers started on demand because no warm container was available */
+  coldStarts: number;
+  /** Containers removed because a health check found them stopped or unhealthy */
+  healthCheckEvictions: number;
+  /** Failed attempts to stop a container */
+  stopFailures: number;
+  /** Time to return a container from getContainer() (ms) */
+  acquireLatency: Histogram;
+  /** Time to start and warm up a container (ms) */
+  startupDuration: Histogram;
+  /** Age of the containers currently warm (ms) */
+  warmAge: Histogram;
+}
+
+/**
+ * Pool stats with detailed metrics
+ */
+export interface DetailedPoolStats extends Omit<PoolStats, 'shards'> {
+  metrics: PoolMetrics;
+  /** Stats of each shard, when the pool is sharded */
+  shards?: DetailedPoolStats[];
 }
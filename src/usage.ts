@@ -0,0 +1,70 @@
+import type { CostEstimate, PricingConfig, ProfileConfig } from './types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Total warm time at a point in time. Sampled each refresh to measure idle
+ * spend over the last hour.
+ */
+export interface IdleSample {
+  /** When the sample was taken (ms since epoch) */
+  at: number;
+  /** Warm time accounted so far (ms) */
+  warmMs: number;
+}
+
+/**
+ * Append a sample, dropping those no longer needed to look back one hour
+ */
+export function addIdleSample(samples: IdleSample[], sample: IdleSample): IdleSample[] {
+  const cutoff = sample.at - HOUR;
+  // Keep the newest sample at or before the cutoff as the baseline
+  let start = 0;
+  while (start + 1 < samples.length && samples[start + 1].at <= cutoff) {
+    start++;
+  }
+  return [...samples.slice(start), sample];
+}
+
+/**
+ * Warm container-seconds in the hour before the latest sample
+ */
+export function idleSecondsLastHour(samples: IdleSample[]): number {
+  if (samples.length < 2) return 0;
+  const baseline = samples[0];
+  const latest = samples[samples.length - 1];
+  return (latest.warmMs - baseline.warmMs) / 1000;
+}
+
+/**
+ * Number of containers the idle budget keeps warm: a container warm for a
+ * whole hour uses 3600 container-seconds
+ */
+export function idleBudgetWarmCap(budget: number): number {
+  return Math.max(0, Math.floor(budget / 3600));
+}
+
+/**
+ * Price per container-second of a profile's instance type, or 0 for instance
+ * types without a price
+ */
+export function pricePerSecond(pricing: PricingConfig, profile?: ProfileConfig): number {
+  return pricing.prices[profile?.instanceType ?? pricing.instanceType] ?? 0;
+}
+
+/**
+ * Estimate spend from the time each profile spent warm and assigned
+ */
+export function estimateCost(
+  usage: { profile: string; status: 'warm' | 'assigned'; ms: number }[],
+  pricing: PricingConfig,
+  profiles?: Record<string, ProfileConfig>
+): CostEstimate {
+  const cost: CostEstimate = { warm: 0, assigned: 0, total: 0 };
+  for (const { profile, status, ms } of usage) {
+    const amount = (ms / 1000) * pricePerSecond(pricing, profiles?.[profile]);
+    cost[status] += amount;
+    cost.total += amount;
+  }
+  return cost;
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CircuitOpenError, createAdminHandler, PoolDrainingError } from '../src/index.js';
+import type { WarmPoolConfig } from '../src/index.js';
+import { createTestPool } from '../src/testing/index.js';
+
+async function setup(config: Omit<WarmPoolConfig, 'idCache'> = {}) {
+  const { pool } = await createTestPool({ config: { warmTarget: 0, ...config } });
+  const admin = createAdminHandler(pool, { prefix: '/admin', token: 'secret' });
+  const request = (path: string, init: RequestInit = {}) =>
+    admin(new Request(`https://pool.test${path}`, {
+      ...init,
+      headers: { Authorization: 'Bearer secret', ...init.headers },
+    }));
+  return { pool, admin, request };
+}
+
+describe('admin handler', () => {
+  it('ignores paths outside its prefix', async () => {
+    const { admin } = await setup();
+
+    expect(await admin(new Request('https://pool.test/instance/a'))).toBeNull();
+  });
+
+  it('rejects requests without the token', async () => {
+    const { admin } = await setup();
+
+    const response = await admin(new Request('https://pool.test/admin/stats'));
+
+    expect(response?.status).toBe(401);
+    expect(await response?.json()).toMatchObject({ error: { code: 'unauthorized' } });
+  });
+
+  it('serves stats', async () => {
+    const { request } = await setup();
+
+    const response = await request('/admin/stats');
+
+    expect(response?.status).toBe(200);
+    expect(await response?.json()).toMatchObject({ warm: 0, assigned: 0 });
+  });
+
+  it('looks up and evicts sessions', async () => {
+    const { pool, request } = await setup();
+    await pool.getContainer('session-a');
+
+    const found = await request('/admin/assignments/session-a');
+    expect(await found?.json()).toMatchObject({ userID: 'session-a' });
+
+    const evicted = await request('/admin/assignments/session-a', { method: 'DELETE' });
+    expect(await evicted?.json()).toEqual({ result: 'stopped' });
+
+    const missing = await request('/admin/assignments/session-a');
+    expect(missing?.status).toBe(404);
+  });
+
+  it('lists every ID on a shared container', async () => {
+    const { pool, request } = await setup({ sessionsPerContainer: 2 });
+    await pool.getContainer('session-a');
+    await pool.getContainer('session-b');
+    const assignment = await pool.getAssignment('session-a');
+
+    const found = await request(`/admin/containers/${assignment?.containerUUID}`);
+    const { assignments } = await found?.json() as { assignments: { userID: string }[] };
+    expect(assignments.map(({ userID }) => userID)).toEqual(['session-a', 'session-b']);
+
+    const missing = await request('/admin/containers/unknown');
+    expect(missing?.status).toBe(404);
+  });
+
+  it('validates config overrides', async () => {
+    const { request } = await setup();
+
+    const invalid = await request('/admin/config', { method: 'PATCH', body: JSON.stringify({ warmTarget: -1 }) });
+    expect(invalid?.status).toBe(400);
+
+    const valid = await request('/admin/config', { method: 'PATCH', body: JSON.stringify({ warmTarget: 7 }) });
+    expect(await valid?.json()).toMatchObject({ config: { warmTarget: 7 } });
+  });
+
+  it('answers client errors with 4xx instead of 500', async () => {
+    const { request } = await setup();
+
+    const malformed = await request('/admin/assignments/%E0%A4%A');
+    expect(malformed?.status).toBe(400);
+
+    const unknownProfile = await request('/admin/prewarm', {
+      method: 'POST',
+      body: JSON.stringify({ count: 1, expiresAt: Date.now() + 60_000, profile: 'gpu' }),
+    });
+    expect(unknownProfile?.status).toBe(400);
+    expect(await unknownProfile?.json()).toMatchObject({ error: { code: 'unknown_profile' } });
+  });
+
+  it('answers with 503 while the pool cannot serve', async () => {
+    const { pool, request } = await setup();
+
+    vi.spyOn(pool, 'stats').mockRejectedValueOnce(new PoolDrainingError());
+    const draining = await request('/admin/stats');
+    expect(draining?.status).toBe(503);
+    expect(await draining?.json()).toMatchObject({ error: { code: 'pool_draining' } });
+
+    vi.spyOn(pool, 'stats').mockRejectedValueOnce(new CircuitOpenError(1_500));
+    const circuitOpen = await request('/admin/stats');
+    expect(circuitOpen?.status).toBe(503);
+    expect(circuitOpen?.headers.get('Retry-After')).toBe('2');
+  });
+
+  it('answers unsupported methods with 405', async () => {
+    const { request } = await setup();
+
+    const response = await request('/admin/drain');
+
+    expect(response?.status).toBe(405);
+    expect(response?.headers.get('Allow')).toBe('POST');
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTestPool } from '../src/testing/index.js';
+
+describe('idCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves repeat IDs from the cache without calling the pool', async () => {
+    const { pool, pools, idCache } = await createTestPool({ config: { warmTarget: 0 }, idCache: true });
+    const first = await pool.getContainer('session-a');
+    expect(idCache?.entries.get('global-pool:session-a')).toBeDefined();
+
+    const { instance } = await pools.object('global-pool');
+    const getContainer = vi.spyOn(instance, 'getContainer');
+
+    const second = await pool.getContainer('session-a');
+
+    expect(second).toBe(first);
+    expect(getContainer).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the pool when the cached container stopped', async () => {
+    const { pool, containers, idCache } = await createTestPool({ config: { warmTarget: 0 }, idCache: true });
+    const first = await pool.getContainer('session-a');
+
+    (first as unknown as { status: string }).status = 'stopped';
+    const second = await pool.getContainer('session-a');
+
+    expect(second).not.toBe(first);
+    const cached = idCache?.entries.get('global-pool:session-a');
+    expect(cached && containers.container(cached)).toBe(second);
+  });
+
+  it('falls back to the pool when the cached container cannot be checked', async () => {
+    const { pool, idCache } = await createTestPool({ config: { warmTarget: 0 }, idCache: true });
+    const first = await pool.getContainer('session-a');
+
+    (first as unknown as { stateError: string }).stateError = 'unreachable';
+    await pool.getContainer('session-a');
+
+    expect(idCache?.reads).toBe(2);
+  });
+
+  it('drops the cache entry on release', async () => {
+    const { pool, idCache } = await createTestPool({ config: { warmTarget: 0 }, idCache: true });
+    await pool.getContainer('session-a');
+
+    await pool.release('session-a');
+
+    expect(idCache?.entries.has('global-pool:session-a')).toBe(false);
+  });
+
+  it('stops rather than recycles expired leases so cached IDs cannot reach the next owner', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, runAlarm, settle } = await createTestPool({
+      config: { warmTarget: 1, maxTotal: 2, leaseExpiry: 'recycle', resetHook: { path: '/reset' } },
+      idCache: true,
+    });
+    await runAlarm();
+    const first = await pool.getContainer('session-a', { leaseMs: 60_000 });
+    await settle();
+
+    vi.advanceTimersByTime(60_000);
+    await runAlarm();
+    const other = await pool.getContainer('session-b');
+    const second = await pool.getContainer('session-a');
+
+    expect(other).not.toBe(first);
+    expect(second).not.toBe(first);
+    expect(second).not.toBe(other);
+  });
+
+  it('refuses leases on shared containers', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0, sessionsPerContainer: 2 }, idCache: true });
+    await pool.getContainer('session-b');
+
+    await expect(pool.getContainer('session-a', { leaseMs: 60_000 })).rejects.toThrow(/not supported with idCache/);
+    expect(await pool.getAssignment('session-a')).toBeNull();
+  });
+});
+
+describe('sharding', () => {
+  it('splits the warm target across shards and merges stats', async () => {
+    const { pool, pools, containers, runAlarm } = await createTestPool({ config: { warmTarget: 4, shards: 2 } });
+
+    await runAlarm();
+
+    expect(pools.names().sort()).toEqual(['global-pool:shard0', 'global-pool:shard1']);
+    expect(containers.running()).toHaveLength(4);
+    const stats = await pool.stats();
+    expect(stats.warm).toBe(4);
+    expect(stats.shards?.map((shard) => shard.warm)).toEqual([2, 2]);
+  });
+
+  it('pages through assignments on every shard', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0, shards: 2 } });
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+    for (const id of ids) {
+      await pool.getContainer(id);
+    }
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await pool.listAssignments({ limit: 2, cursor });
+      seen.push(...page.assignments.map((assignment) => assignment.userID));
+      cursor = page.cursor ?? undefined;
+    } while (cursor);
+
+    expect(seen.sort()).toEqual(ids);
+  });
+
+  it('finds the owner of a container on any shard', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0, shards: 2 } });
+    for (const id of ['a', 'b', 'c', 'd']) {
+      await pool.getContainer(id);
+    }
+
+    for (const { userID, containerUUID } of (await pool.listAssignments()).assignments) {
+      expect(await pool.getAssignmentsByContainer(containerUUID)).toMatchObject([{ userID }]);
+    }
+    expect(await pool.getAssignmentsByContainer('unknown')).toEqual([]);
+  });
+});
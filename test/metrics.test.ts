@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { renderOpenMetrics } from '../src/index.js';
+import { createTestPool } from '../src/testing/index.js';
+
+describe('renderOpenMetrics', () => {
+  it('renders gauges, counters and histograms in the OpenMetrics text format', async () => {
+    const { pool, runAlarm } = await createTestPool({ config: { warmTarget: 2, profiles: { gpu: { warmTarget: 0 } } } });
+    await runAlarm();
+    await pool.getContainer('session-a');
+
+    const text = renderOpenMetrics(await pool.metrics());
+    const lines = text.trimEnd().split('\n');
+
+    expect(lines).toContain('# TYPE warm_pool_containers gauge');
+    expect(lines).toContain('warm_pool_containers{state="assigned"} 1');
+    expect(lines).toContain('warm_pool_profile_containers{profile="gpu",state="warm"} 0');
+    expect(lines).toContain('# TYPE warm_pool_acquisitions counter');
+    expect(lines).toContain('warm_pool_acquisitions_total{result="warm"} 1');
+    expect(lines).toContain('# TYPE warm_pool_startup_duration_seconds histogram');
+    expect(lines).toContain('warm_pool_startup_duration_seconds_bucket{le="+Inf"} 3');
+    expect(lines).toContain('warm_pool_startup_duration_seconds_count 3');
+    expect(lines).toContain('# TYPE warm_pool_warm_age_seconds gaugehistogram');
+    expect(lines.some((line) => line.startsWith('warm_pool_warm_age_seconds_gcount '))).toBe(true);
+    expect(lines.at(-1)).toBe('# EOF');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('keeps histogram buckets cumulative', async () => {
+    const { pool, runAlarm } = await createTestPool({ config: { warmTarget: 3 } });
+    await runAlarm();
+
+    const buckets = renderOpenMetrics(await pool.metrics())
+      .split('\n')
+      .filter((line) => line.startsWith('warm_pool_startup_duration_seconds_bucket'))
+      .map((line) => Number(line.split(' ')[1]));
+
+    expect(buckets.length).toBeGreaterThan(1);
+    expect(buckets).toEqual([...buckets].sort((a, b) => a - b));
+    expect(buckets.at(-1)).toBe(3);
+  });
+
+  it('uses the given metric name prefix', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0 } });
+
+    const text = renderOpenMetrics(await pool.metrics(), 'sandbox_pool');
+
+    expect(text).toContain('# TYPE sandbox_pool_queue_depth gauge');
+    expect(text).not.toContain('warm_pool_');
+  });
+});
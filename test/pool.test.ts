@@ -0,0 +1,884 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CircuitOpenError, PoolDrainingError, PoolExhaustedError, UnknownProfileError } from '../src/index.js';
+import type { PoolEvent } from '../src/index.js';
+import { createTestPool } from '../src/testing/index.js';
+
+describe('assignment', () => {
+  it('returns the same container for the same ID', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0 } });
+
+    const first = await pool.getContainer('session-a');
+    const second = await pool.getContainer('session-a');
+
+    expect(second).toBe(first);
+  });
+
+  it('gives each ID its own container', async () => {
+    const { pool, containers } = await createTestPool({ config: { warmTarget: 0 } });
+
+    const a = await pool.getContainer('session-a');
+    const b = await pool.getContainer('session-b');
+
+    expect(b).not.toBe(a);
+    expect(containers.running()).toHaveLength(2);
+  });
+
+  it('assigns a warm container before starting a new one', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 2 } });
+    await runAlarm();
+    expect(containers.running()).toHaveLength(2);
+
+    const container = await pool.getContainer('session-a');
+
+    expect(containers.all()).toContain(container);
+    const { assigned, metrics } = await pool.metrics();
+    expect(assigned).toBe(1);
+    expect(metrics.warmHits).toBe(1);
+    expect(metrics.coldStarts).toBe(0);
+  });
+
+  it('starts one container for concurrent calls with a new ID', async () => {
+    const { pool, containers } = await createTestPool({ config: { warmTarget: 0 }, containers: { startDelay: 20 } });
+
+    const [first, second] = await Promise.all([pool.getContainer('session-a'), pool.getContainer('session-a')]);
+
+    expect(second).toBe(first);
+    expect(containers.all()).toHaveLength(1);
+    expect((await pool.stats()).assigned).toBe(1);
+  });
+
+  it('starts a container on demand when none is warm', async () => {
+    const { pool, containers } = await createTestPool({ config: { warmTarget: 0 } });
+
+    await pool.getContainer('session-a');
+
+    expect(containers.running()).toHaveLength(1);
+    const { metrics, profiles } = await pool.metrics();
+    expect(metrics.coldStarts).toBe(1);
+    expect(profiles.default.coldStarts).toBe(1);
+  });
+
+  it('stops the container on release', async () => {
+    const { pool, containers } = await createTestPool({ config: { warmTarget: 0 } });
+    await pool.getContainer('session-a');
+
+    expect(await pool.release('session-a')).toBe('stopped');
+    expect(await pool.release('session-a')).toBe('not_found');
+    expect(containers.running()).toHaveLength(0);
+    expect((await pool.stats()).total).toBe(0);
+  });
+
+  it('looks up assignments by ID and by container, with container state', async () => {
+    const { pool, containers } = await createTestPool({ config: { warmTarget: 0 } });
+    await pool.getContainer('session-a');
+    const [container] = containers.running();
+
+    const assignment = await pool.getAssignment('session-a');
+    expect(assignment).toMatchObject({ userID: 'session-a', containerUUID: container.name, profile: 'default' });
+    expect(assignment?.state?.status).toBe('running');
+    expect(await pool.getAssignmentsByContainer(container.name)).toMatchObject([{ userID: 'session-a' }]);
+
+    container.stateError = 'network error';
+    expect((await pool.listAssignments()).assignments[0].state).toBeNull();
+
+    await pool.release('session-a');
+    expect(await pool.getAssignmentsByContainer(container.name)).toEqual([]);
+  });
+});
+
+describe('shared containers', () => {
+  it('fills the least-loaded container before starting another', async () => {
+    const { pool, containers } = await createTestPool({ config: { warmTarget: 0, sessionsPerContainer: 2 } });
+
+    const a = await pool.getContainer('session-a');
+    const b = await pool.getContainer('session-b');
+    const c = await pool.getContainer('session-c');
+    await pool.release('session-a');
+    const d = await pool.getContainer('session-d');
+
+    expect(b).toBe(a);
+    expect(c).not.toBe(a);
+    expect(d).toBe(a);
+    const shared = await pool.getAssignment('session-b');
+    const owners = await pool.getAssignmentsByContainer(shared?.containerUUID ?? '');
+    expect(owners.map((assignment) => assignment.userID)).toEqual(['session-b', 'session-d']);
+    expect(containers.running()).toHaveLength(2);
+    const { assigned, sessions } = await pool.stats();
+    expect(assigned).toBe(2);
+    expect(sessions).toEqual({ assigned: 3, freeSlots: 1, occupancy: { 1: 1, 2: 1 } });
+  });
+
+  it('stops a shared container once its last ID is released', async () => {
+    const { pool, containers } = await createTestPool({ config: { warmTarget: 0, sessionsPerContainer: 3 } });
+    await pool.getContainer('session-a');
+    await pool.getContainer('session-b');
+
+    expect(await pool.release('session-a')).toBe('released');
+    expect(containers.running()).toHaveLength(1);
+    expect(await pool.release('session-b')).toBe('stopped');
+    expect(containers.running()).toHaveLength(0);
+  });
+
+  it('places no new ID on a container while its last ID is being released', async () => {
+    const { pool, containers } = await createTestPool({ config: { warmTarget: 0, sessionsPerContainer: 2 } });
+    await pool.getContainer('session-a');
+    const [released] = containers.running();
+    let stopping = false;
+    let finishStop = () => {};
+    const stop = released.stop.bind(released);
+    released.stop = async () => {
+      stopping = true;
+      await new Promise<void>((resolve) => { finishStop = resolve; });
+      await stop();
+    };
+
+    const releasing = pool.release('session-a');
+    await vi.waitFor(() => expect(stopping).toBe(true));
+    const b = await pool.getContainer('session-b');
+    finishStop();
+
+    expect(await releasing).toBe('stopped');
+    expect(b).not.toBe(released);
+    expect(await pool.getAssignment('session-b')).not.toBeNull();
+    expect(containers.running()).toEqual([b]);
+  });
+
+  it('hands a freed slot on a shared container to a waiting caller', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0, maxTotal: 1, sessionsPerContainer: 2 } });
+    const a = await pool.getContainer('session-a');
+    await pool.getContainer('session-b');
+
+    const waiting = pool.getContainer('session-c', { timeout: 1000 });
+    await vi.waitFor(async () => expect((await pool.stats()).queue.depth).toBe(1));
+    expect(await pool.release('session-a')).toBe('released');
+
+    await expect(waiting).resolves.toBe(a);
+  });
+});
+
+describe('health checks', () => {
+  it('evicts warm containers that stopped and replaces them', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 1 } });
+    await runAlarm();
+    const [crashed] = containers.running();
+
+    crashed.status = 'stopped';
+    await runAlarm();
+
+    const running = containers.running();
+    expect(running).toHaveLength(1);
+    expect(running[0]).not.toBe(crashed);
+    const { warm, metrics } = await pool.metrics();
+    expect(warm).toBe(1);
+    expect(metrics.healthCheckEvictions).toBe(1);
+  });
+
+  it('evicts assigned containers that stopped', async () => {
+    const { pool, runAlarm } = await createTestPool({ config: { warmTarget: 0 } });
+    const container = await pool.getContainer('session-a');
+
+    (container as unknown as { status: string }).status = 'stopped';
+    await runAlarm();
+
+    expect(await pool.getAssignment('session-a')).toBeNull();
+  });
+
+  it('gives an ID a new container when its container stopped', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0 } });
+    const first = await pool.getContainer('session-a');
+
+    (first as unknown as { status: string }).status = 'stopped';
+    const second = await pool.getContainer('session-a');
+
+    expect(second).not.toBe(first);
+  });
+
+  it('keeps an assignment through a transient state error', async () => {
+    const { pool, runAlarm } = await createTestPool({ config: { warmTarget: 0 } });
+    const first = await pool.getContainer('session-a');
+
+    (first as unknown as { stateError?: string }).stateError = 'network error';
+    await runAlarm();
+    const second = await pool.getContainer('session-a');
+
+    expect(second).toBe(first);
+    expect(await pool.getAssignment('session-a')).not.toBeNull();
+  });
+
+  it('stops and replaces containers that keep failing the probe', async () => {
+    const hanging = new Set<string>();
+    const { pool, containers, runAlarm } = await createTestPool({
+      config: { warmTarget: 1, healthCheck: { probe: { path: '/health' }, failureThreshold: 2 } },
+      containers: { fetch: (_request, container) => new Response(null, { status: hanging.has(container.name) ? 503 : 200 }) },
+    });
+    await runAlarm();
+    const [hung] = containers.running();
+
+    hanging.add(hung.name);
+    await runAlarm();
+    expect(containers.running()).toEqual([hung]);
+    expect(new URL(hung.requests[0].url).pathname).toBe('/health');
+
+    await runAlarm();
+    const running = containers.running();
+    expect(running).toHaveLength(1);
+    expect(running[0]).not.toBe(hung);
+    expect(hung.stops).toBe(1);
+    expect((await pool.metrics()).metrics.healthCheckEvictions).toBe(1);
+  });
+});
+
+describe('hooks', () => {
+  it('runs the warm-up hook before a container counts as warm', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 1, warmup: { path: '/warmup' } } });
+
+    await runAlarm();
+
+    const [container] = containers.running();
+    expect(container.requests.map((request) => new URL(request.url).pathname)).toEqual(['/warmup']);
+    expect((await pool.stats()).warm).toBe(1);
+  });
+
+  it('stops containers that fail the warm-up hook', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({
+      config: { warmTarget: 1, warmup: { path: '/warmup' }, startRetries: 0 },
+      containers: { fetch: () => new Response('loading', { status: 503 }) },
+    });
+
+    await runAlarm();
+
+    expect(containers.running()).toHaveLength(0);
+    expect(containers.all()[0].stops).toBe(1);
+    expect((await pool.stats()).startup.failed).toBe(1);
+  });
+
+  it('returns recycled containers to the warm pool after the reset hook', async () => {
+    const { pool } = await createTestPool({
+      config: { warmTarget: 0, resetHook: { path: '/reset', httpMethod: 'POST', expectedStatus: 204 } },
+      containers: { fetch: () => new Response(null, { status: 204 }) },
+    });
+    const container = await pool.getContainer('session-a');
+
+    expect(await pool.release('session-a', { mode: 'recycle' })).toBe('recycled');
+
+    const [reset] = (container as unknown as { requests: Request[] }).requests;
+    expect(reset.method).toBe('POST');
+    expect(new URL(reset.url).pathname).toBe('/reset');
+    expect((await pool.stats()).warm).toBe(1);
+    expect(await pool.getContainer('session-b')).toBe(container);
+  });
+
+  it('stops recycled containers that fail the reset hook', async () => {
+    const { pool, containers } = await createTestPool({
+      config: { warmTarget: 0, resetHook: { path: '/reset' } },
+      containers: { fetch: () => new Response('busy', { status: 500 }) },
+    });
+    await pool.getContainer('session-a');
+
+    expect(await pool.release('session-a', { mode: 'recycle' })).toBe('stopped');
+    expect(containers.running()).toHaveLength(0);
+  });
+});
+
+describe('container starts', () => {
+  it('stops and retries starts that time out', async () => {
+    const { pool, containers } = await createTestPool({
+      config: { warmTarget: 0, startTimeout: 20, startRetries: 1, startRetryBackoff: 0 },
+      containers: { startDelay: 200 },
+    });
+
+    await expect(pool.getContainer('session-a')).rejects.toThrow('Failed to start container');
+
+    expect(containers.all()).toHaveLength(2);
+    expect(containers.all().every((container) => container.stops === 1)).toBe(true);
+    const { startup } = await pool.stats();
+    expect(startup.failed).toBe(2);
+    expect(startup.lastError?.message).toMatch(/did not start within 20ms/);
+  });
+
+  it('hands out the container from a retry that succeeds', async () => {
+    let attempts = 0;
+    const { pool, containers } = await createTestPool({
+      config: { warmTarget: 0, warmup: { path: '/warmup' }, startRetries: 2, startRetryBackoff: 0 },
+      containers: { fetch: () => new Response(null, { status: ++attempts === 1 ? 503 : 200 }) },
+    });
+
+    const container = await pool.getContainer('session-a');
+
+    expect(containers.all()).toHaveLength(2);
+    expect(containers.running()).toEqual([container]);
+    expect((await pool.stats()).startup).toMatchObject({ started: 1, failed: 1 });
+  });
+
+  it('lets only one of two concurrent callers start a container at maxTotal', async () => {
+    const { pool, containers } = await createTestPool({ config: { warmTarget: 0, maxTotal: 1 } });
+
+    const results = await Promise.allSettled([
+      pool.getContainer('session-a', { timeout: 50 }),
+      pool.getContainer('session-b', { timeout: 50 }),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(containers.all()).toHaveLength(1);
+  });
+
+  it('keeps the slot of a failed attempt for its retry at maxTotal', async () => {
+    let attempts = 0;
+    const { pool, containers } = await createTestPool({
+      config: { warmTarget: 0, maxTotal: 1, warmup: { path: '/warmup' }, startRetries: 1, startRetryBackoff: 200 },
+      containers: { fetch: () => new Response(null, { status: ++attempts === 1 ? 503 : 200 }) },
+    });
+
+    // Call again while the first caller's start waits to retry
+    const first = pool.getContainer('session-a');
+    await vi.waitFor(async () => expect((await pool.stats()).startup.failed).toBe(1));
+    await expect(pool.getContainer('session-b', { timeout: 50 })).rejects.toBeInstanceOf(PoolExhaustedError);
+
+    await expect(first).resolves.toBeDefined();
+    expect(containers.running()).toHaveLength(1);
+    expect((await pool.stats()).total).toBe(1);
+  });
+});
+
+describe('legacy state migration', () => {
+  it('moves containers and assignments from the old storage keys into the tables', async () => {
+    const { pool, pools } = await createTestPool({ config: { warmTarget: 1, profiles: { gpu: { warmTarget: 0 } } } });
+
+    // State as written by versions before the SQL tables
+    const { state } = await pools.object('global-pool');
+    await state.storage.put('warmContainers', new Set(['legacy-warm']));
+    await state.storage.put('assignments', new Map([['session-a', 'legacy-assigned']]));
+    await state.storage.put('containerProfiles', new Map([['legacy-assigned', 'gpu']]));
+
+    const stats = await pool.stats();
+
+    expect(stats).toMatchObject({ warm: 1, assigned: 1 });
+    expect(stats.profiles.gpu.assigned).toBe(1);
+    expect(await pool.getAssignment('session-a')).toMatchObject({ containerUUID: 'legacy-assigned', profile: 'gpu' });
+    for (const key of ['warmContainers', 'assignments', 'containerProfiles']) {
+      expect(await state.storage.get(key)).toBeUndefined();
+    }
+  });
+});
+
+describe('start reconciliation', () => {
+  it('adopts running containers from interrupted starts and stops the rest', async () => {
+    const { pool, pools, containers, runAlarm } = await createTestPool({ config: { warmTarget: 1 } });
+    await pool.stats();
+
+    // Starts recorded by a run of the pool that never got to track them
+    const { state } = await pools.object('global-pool');
+    for (const uuid of ['running-orphan', 'stopped-orphan']) {
+      state.storage.sql.exec(
+        'INSERT INTO starting (uuid, profile, version, started_at) VALUES (?, ?, NULL, ?)',
+        uuid,
+        'default',
+        Date.now()
+      );
+    }
+    const running = containers.get(containers.idFromName('running-orphan'));
+    running.status = 'running';
+    const stopped = containers.get(containers.idFromName('stopped-orphan'));
+
+    await runAlarm();
+
+    expect(containers.running()).toEqual([running]);
+    expect(stopped.stops).toBe(1);
+    expect(await pool.stats()).toMatchObject({ warm: 1, starting: 0 });
+  });
+});
+
+describe('scaling', () => {
+  it('starts containers up to the warm target', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 3 } });
+
+    await runAlarm();
+
+    expect(containers.running()).toHaveLength(3);
+    expect((await pool.stats()).warm).toBe(3);
+  });
+
+  it('replaces an assigned warm container without waiting for the refresh', async () => {
+    const { pool, containers, runAlarm, settle } = await createTestPool({ config: { warmTarget: 2 } });
+    await runAlarm();
+
+    await pool.getContainer('session-a');
+    await settle();
+
+    expect(containers.running()).toHaveLength(3);
+    expect((await pool.stats()).warm).toBe(2);
+  });
+
+  it('stops excess warm containers when the target drops', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 3 } });
+    await runAlarm();
+
+    await pool.overrideConfig({ warmTarget: 1 });
+    await runAlarm();
+
+    expect(containers.running()).toHaveLength(1);
+    expect((await pool.stats()).config.warmTarget).toBe(1);
+  });
+
+  it('never runs more than maxTotal containers', async () => {
+    const { containers, runAlarm } = await createTestPool({ config: { warmTarget: 5, maxTotal: 2 } });
+
+    await runAlarm();
+
+    expect(containers.running()).toHaveLength(2);
+  });
+
+  it('throws PoolExhaustedError when no container frees up in time', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0, maxTotal: 1 } });
+    await pool.getContainer('session-a');
+
+    await expect(pool.getContainer('session-b', { timeout: 20 })).rejects.toBeInstanceOf(PoolExhaustedError);
+  });
+
+  it('hands a released container to a waiting caller', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0, maxTotal: 1 } });
+    await pool.getContainer('session-a');
+
+    const waiting = pool.getContainer('session-b', { timeout: 1000 });
+    await pool.release('session-a');
+
+    await expect(waiting).resolves.toBeDefined();
+    expect((await pool.stats()).queue.served).toBe(1);
+  });
+
+  it('fails queued callers as soon as the pool drains', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0, maxTotal: 1 } });
+    await pool.getContainer('session-a');
+
+    const waiting = pool.getContainer('session-b', { timeout: 60_000 });
+    await vi.waitFor(async () => expect((await pool.stats()).queue.depth).toBe(1));
+    await pool.drain();
+
+    await expect(waiting).rejects.toBeInstanceOf(PoolDrainingError);
+    expect((await pool.stats()).queue.depth).toBe(0);
+  });
+
+  it('counts failed starts', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({
+      config: { warmTarget: 1, startRetries: 0 },
+      containers: { startError: 'no capacity' },
+    });
+
+    await runAlarm();
+
+    expect(containers.running()).toHaveLength(0);
+    const { startup } = await pool.stats();
+    expect(startup.failed).toBe(1);
+    expect(startup.lastError?.message).toBe('no capacity');
+  });
+
+  it('keeps the pool empty while draining', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 2 } });
+    await runAlarm();
+
+    await pool.drain();
+    await runAlarm();
+
+    expect(containers.running()).toHaveLength(0);
+    await expect(pool.getContainer('session-a')).rejects.toBeInstanceOf(PoolDrainingError);
+
+    await pool.resume();
+    await runAlarm();
+    expect(containers.running()).toHaveLength(2);
+  });
+
+  it('keeps warm containers but starts none while paused', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 2 } });
+    await runAlarm();
+
+    await pool.pause();
+    await pool.getContainer('session-a');
+    await runAlarm();
+
+    const { warm, assigned, mode } = await pool.stats();
+    expect({ warm, assigned, mode }).toEqual({ warm: 1, assigned: 1, mode: 'paused' });
+    expect(containers.running()).toHaveLength(2);
+
+    await pool.resume();
+    await runAlarm();
+    expect((await pool.stats()).warm).toBe(2);
+  });
+});
+
+describe('autoscaling', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('follows smoothed demand between minWarm and maxWarm', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, containers, runAlarm } = await createTestPool({
+      config: { refreshInterval: 10_000, autoscale: { minWarm: 1, maxWarm: 4, smoothing: 1 } },
+    });
+    await runAlarm();
+    expect((await pool.stats()).warmTarget).toBe(1);
+
+    // 5 acquisitions in 10s keep a replenish window of 10s busy with 5 containers
+    for (const id of ['a', 'b', 'c', 'd', 'e']) {
+      await pool.getContainer(id);
+    }
+    vi.advanceTimersByTime(10_000);
+    await runAlarm();
+    const busy = await pool.stats();
+    expect(busy.demand.demandRate).toBe(0.5);
+    expect(busy).toMatchObject({ warmTarget: 4, warm: 4 });
+
+    vi.advanceTimersByTime(10_000);
+    await runAlarm();
+    expect(await pool.stats()).toMatchObject({ warmTarget: 1, warm: 1 });
+    expect(containers.running()).toHaveLength(6);
+  });
+});
+
+describe('schedule', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('uses the warm target of the window covering the current time', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // A Monday
+    vi.setSystemTime(new Date('2026-01-05T09:30:00Z'));
+    const { pool, containers, runAlarm } = await createTestPool({
+      config: {
+        warmTarget: 1,
+        schedule: { windows: [{ name: 'business-hours', days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00', warmTarget: 3 }] },
+      },
+    });
+
+    await runAlarm();
+    expect(await pool.stats()).toMatchObject({ warmTarget: 3, scheduleWindow: 'business-hours' });
+    expect(containers.running()).toHaveLength(3);
+
+    vi.setSystemTime(new Date('2026-01-05T17:00:00Z'));
+    await runAlarm();
+    expect(await pool.stats()).toMatchObject({ warmTarget: 1, scheduleWindow: null });
+    expect(containers.running()).toHaveLength(1);
+  });
+});
+
+describe('profiles', () => {
+  it('keeps warm containers per profile and starts them with its options', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({
+      config: { warmTarget: 1, profiles: { gpu: { warmTarget: 1, startOptions: { envVars: { MODEL: 'large' } } } } },
+    });
+    await runAlarm();
+
+    const gpu = containers.running().find((container) => container.startOptions?.envVars?.MODEL === 'large');
+    expect(containers.running()).toHaveLength(2);
+    expect(await pool.getContainer('session-a', { profile: 'gpu' })).toBe(gpu);
+    expect((await pool.getAssignment('session-a'))?.profile).toBe('gpu');
+
+    const { profiles } = await pool.stats();
+    expect(profiles.gpu).toMatchObject({ assigned: 1 });
+    expect(profiles.default).toMatchObject({ warm: 1, assigned: 0 });
+  });
+
+  it('rejects profiles that are not configured', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0 } });
+
+    await expect(pool.getContainer('session-a', { profile: 'gpu' })).rejects.toBeInstanceOf(UnknownProfileError);
+  });
+});
+
+describe('rolling replacement', () => {
+  it('replaces warm containers of an older version in batches', async () => {
+    const { pool, containers, runAlarm, settle } = await createTestPool({
+      config: { warmTarget: 3, version: 'v1', rolloutBatchSize: 2 },
+    });
+    await runAlarm();
+    const original = containers.running();
+    expect(original).toHaveLength(3);
+
+    // The first batch starts alongside the old containers
+    await pool.overrideConfig({ version: 'v2' });
+    await settle();
+    expect((await pool.stats()).versions).toEqual({ v1: { warm: 3, assigned: 0 }, v2: { warm: 2, assigned: 0 } });
+
+    // Replaced containers stop as the next batch starts
+    await runAlarm();
+    expect((await pool.stats()).versions).toEqual({ v1: { warm: 1, assigned: 0 }, v2: { warm: 3, assigned: 0 } });
+
+    await runAlarm();
+    const { warm, versions } = await pool.stats();
+    expect(warm).toBe(3);
+    expect(versions).toEqual({ v2: { warm: 3, assigned: 0 } });
+    expect(original.every((container) => !container.running)).toBe(true);
+  });
+
+  it('assigns only current containers and flags outdated assignments', async () => {
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 1, version: 'v1' } });
+    await runAlarm();
+    const old = await pool.getContainer('session-a');
+
+    await pool.overrideConfig({ version: 'v2' });
+    await runAlarm();
+    const next = await pool.getContainer('session-b');
+
+    expect(next).not.toBe(old);
+    expect(containers.running()).toContain(old);
+    expect(await pool.getAssignment('session-a')).toMatchObject({ version: 'v1', outdated: true });
+    expect(await pool.getAssignment('session-b')).toMatchObject({ version: 'v2', outdated: false });
+
+    // Recycling an outdated container stops it instead of returning it to the pool
+    await pool.release('session-a', { mode: 'recycle' });
+    expect(containers.running()).not.toContain(old);
+    expect(containers.running()).toContain(next);
+  });
+});
+
+describe('leases', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stops containers whose lease expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 0 } });
+    const container = await pool.getContainer('session-a', { leaseMs: 60_000 });
+
+    vi.advanceTimersByTime(30_000);
+    expect(await pool.renewLease('session-a')).toBe(Date.now() + 60_000);
+    vi.advanceTimersByTime(59_000);
+    await runAlarm();
+    expect(await pool.getAssignment('session-a')).not.toBeNull();
+
+    vi.advanceTimersByTime(1_000);
+    await runAlarm();
+    expect(await pool.getAssignment('session-a')).toBeNull();
+    expect(containers.running()).not.toContain(container);
+  });
+
+  it('recycles expired containers with leaseExpiry: recycle', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, runAlarm } = await createTestPool({
+      config: { warmTarget: 1, maxTotal: 1, leaseExpiry: 'recycle', resetHook: { path: '/reset' } },
+    });
+    await runAlarm();
+    const container = await pool.getContainer('session-a', { leaseMs: 60_000 });
+
+    vi.advanceTimersByTime(60_000);
+    await runAlarm();
+
+    expect(await pool.getAssignment('session-a')).toBeNull();
+    expect(await pool.getContainer('session-b')).toBe(container);
+  });
+});
+
+describe('bursts and reservations', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps extra warm containers until the burst ends', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, containers, runAlarm, settle } = await createTestPool({ config: { warmTarget: 1 } });
+    await runAlarm();
+
+    await pool.prewarm(2, { expiresAt: Date.now() + 60_000 });
+    await settle();
+    expect(containers.running()).toHaveLength(3);
+    expect(await pool.stats()).toMatchObject({ warm: 3, warmTarget: 3, prewarm: 2 });
+
+    vi.advanceTimersByTime(60_000);
+    await runAlarm();
+    expect(containers.running()).toHaveLength(1);
+    expect((await pool.stats()).prewarm).toBe(0);
+  });
+
+  it('releases reservations that are not claimed in time', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 0 } });
+
+    const result = await pool.reserve(['session-a', 'session-b'], { expiresAt: Date.now() + 30_000 });
+    expect(result).toEqual({ reserved: ['session-a', 'session-b'], failed: [] });
+    expect(containers.running()).toHaveLength(2);
+    expect((await pool.stats()).reserved).toBe(2);
+
+    const reserved = await pool.getAssignment('session-a');
+    const container = await pool.getContainer('session-a');
+    expect(container.id.name).toBe(reserved?.containerUUID);
+    expect((await pool.getAssignment('session-a'))?.reservedUntil).toBeNull();
+
+    vi.advanceTimersByTime(30_000);
+    await runAlarm();
+    expect(await pool.getAssignment('session-a')).not.toBeNull();
+    expect(await pool.getAssignment('session-b')).toBeNull();
+    expect((await pool.stats()).reserved).toBe(0);
+  });
+
+  it('does not reserve an ID whose getContainer() call is in flight', async () => {
+    const { pool } = await createTestPool({ config: { warmTarget: 0 }, containers: { startDelay: 50 } });
+
+    const getting = pool.getContainer('session-a');
+    await vi.waitFor(async () => expect((await pool.stats()).starting).toBe(1));
+    const result = await pool.reserve(['session-a'], { expiresAt: Date.now() + 30_000 });
+    await getting;
+
+    expect(result.reserved).toEqual(['session-a']);
+    expect((await pool.getAssignment('session-a'))?.reservedUntil).toBeNull();
+    expect((await pool.stats()).reserved).toBe(0);
+  });
+});
+
+describe('warm age limits', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replaces warm containers past maxWarmAge before stopping them', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, containers, runAlarm } = await createTestPool({ config: { warmTarget: 2, maxWarmAge: 60_000 } });
+    await runAlarm();
+    const original = containers.running();
+
+    vi.advanceTimersByTime(60_000);
+    await runAlarm();
+    expect(containers.running()).toHaveLength(4);
+
+    await runAlarm();
+    const running = containers.running();
+    expect(running).toHaveLength(2);
+    expect(running.some((container) => original.includes(container))).toBe(false);
+    expect((await pool.stats()).warm).toBe(2);
+  });
+
+  it('replaces containers that sat warm for longer than maxIdleWarm', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { containers, runAlarm } = await createTestPool({ config: { warmTarget: 1, maxIdleWarm: 30_000 } });
+    await runAlarm();
+    const [idle] = containers.running();
+
+    vi.advanceTimersByTime(29_000);
+    await runAlarm();
+    expect(containers.running()).toEqual([idle]);
+
+    vi.advanceTimersByTime(1_000);
+    await runAlarm();
+    await runAlarm();
+    expect(containers.running()).toHaveLength(1);
+    expect(containers.running()).not.toContain(idle);
+  });
+});
+
+describe('circuit breaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const config = { warmTarget: 0, startRetries: 0, circuitBreaker: { failureThreshold: 2, cooldown: 60_000 } };
+
+  it('stops attempting starts after repeated failures', async () => {
+    const { pool, containers } = await createTestPool({ config, containers: { startError: 'quota exceeded' } });
+
+    await expect(pool.getContainer('session-a')).rejects.toThrow('Failed to start container');
+    await expect(pool.getContainer('session-b')).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(pool.getContainer('session-c')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(containers.all()).toHaveLength(2);
+    const { circuitBreaker } = await pool.stats();
+    expect(circuitBreaker).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+    expect(circuitBreaker.lastError?.message).toBe('quota exceeded');
+  });
+
+  it('reports no scale-ups while the circuit is open', async () => {
+    const events: PoolEvent[] = [];
+    const { pool, containers, runAlarm } = await createTestPool({
+      config: { ...config, events: { queue: 'POOL_EVENTS', types: ['pool.scaled_up'] } },
+      containers: { startError: 'quota exceeded' },
+      env: { POOL_EVENTS: { send: async (event: PoolEvent) => { events.push(event); } } },
+    });
+    await pool.getContainer('session-a').catch(() => {});
+    await pool.getContainer('session-b').catch(() => {});
+
+    await pool.overrideConfig({ warmTarget: 2 });
+    await runAlarm();
+
+    expect(events).toEqual([]);
+    expect(containers.all()).toHaveLength(2);
+  });
+
+  it('closes again once a trial start succeeds after the cooldown', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, containers } = await createTestPool({ config, containers: { startError: 'quota exceeded' } });
+    await pool.getContainer('session-a').catch(() => {});
+    await pool.getContainer('session-b').catch(() => {});
+
+    vi.advanceTimersByTime(60_000);
+    expect((await pool.stats()).circuitBreaker.state).toBe('half-open');
+
+    containers.behavior.startError = undefined;
+    await pool.getContainer('session-c');
+
+    expect((await pool.stats()).circuitBreaker).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+  });
+});
+
+describe('usage', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accounts warm and assigned time per pool and session', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, runAlarm, settle } = await createTestPool({
+      config: { warmTarget: 1, pricing: { prices: { standard: 0.001 }, instanceType: 'standard' } },
+    });
+    await runAlarm();
+
+    vi.advanceTimersByTime(10_000);
+    await pool.getContainer('session-a');
+    await settle();
+    vi.advanceTimersByTime(20_000);
+
+    // 10s warm before the assignment, then 20s for the container that replaced it
+    const { usage } = await pool.stats();
+    expect(usage.warmSeconds).toBe(30);
+    expect(usage.assignedSeconds).toBe(20);
+    expect(usage.estimatedCost?.total).toBeCloseTo(0.05);
+    const session = await pool.sessionUsage('session-a');
+    expect(session).toMatchObject({ profile: 'default', assignedSeconds: 20 });
+    expect(session?.estimatedCost).toBeCloseTo(0.02);
+    expect(await pool.sessionUsage('session-b')).toBeNull();
+  });
+
+  it('reduces the warm target while the idle budget is exceeded', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { pool, containers, runAlarm } = await createTestPool({
+      config: { warmTarget: 3, maxIdleContainerSecondsPerHour: 3600 },
+    });
+    await runAlarm();
+    expect(containers.running()).toHaveLength(3);
+
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    await runAlarm();
+
+    expect(containers.running()).toHaveLength(1);
+    const { usage } = await pool.stats();
+    expect(usage.idleBudget).toMatchObject({ limit: 3600, exceeded: true, warmTargetReduction: 2 });
+    expect(usage.idleBudget?.idleSecondsLastHour).toBe(5400);
+  });
+});
+
+describe('events', () => {
+  it('sends the selected lifecycle events to the queue', async () => {
+    const events: PoolEvent[] = [];
+    const { pool, settle } = await createTestPool({
+      config: { warmTarget: 0, events: { queue: 'POOL_EVENTS', types: ['container.started', 'container.assigned'] } },
+      env: { POOL_EVENTS: { send: async (event: PoolEvent) => { events.push(event); } } },
+    });
+
+    await pool.getContainer('session-a');
+    await pool.release('session-a');
+    await settle();
+
+    expect(events.map((event) => event.type)).toEqual(['container.started', 'container.assigned']);
+    expect(events[1]).toMatchObject({ userID: 'session-a', profile: 'default', detail: { warm: false } });
+    expect(events[0].containerUUID).toBe(events[1].containerUUID);
+  });
+});
@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // WarmPool extends DurableObject, which only exists in the Workers runtime
+      'cloudflare:workers': fileURLToPath(new URL('./src/testing/workers.ts', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['test/**/*.test.ts'],
+  },
+});